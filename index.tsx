@@ -1,326 +1,3786 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
 import QRCode from 'qrcode';
+import {
+  createBackend,
+  DEFAULT_EVENT_ID,
+  makeId,
+  matchesFilter,
+  type BackendConfig,
+  type BackendKind,
+  type ChannelStatus,
+  type Row,
+  type RowFilter,
+  type SelectOptions,
+  type SyncBackend,
+  type SyncResult,
+  type SyncRoom
+} from './sync';
 // import './index.css'; // REMOVED: Loaded via index.html to prevent white screen crash
 
 // Station Types
-type Station = 'MERCH' | 'BEER' | 'TICKETS' | 'PRODUCTION' | 'COORDINATOR';
-const GRID_STATIONS: Station[] = ['MERCH', 'BEER', 'TICKETS', 'PRODUCTION'];
+// Messages store a station code; each event configures its own stations.
+// COORDINATOR and SYSTEM are built in and never part of the config.
+type Station = string;
+
+interface StationConfig {
+  code: string;
+  name: string;
+  short: string;
+  color: string;
+  order: number;
+  // Takes payments, so it records sales and closes out a till
+  sales?: boolean;
+  // Sells entry, so it's told to pause when the building fills
+  admissions?: boolean;
+}
+
+// Used by events that haven't customised their stations
+const DEFAULT_STATIONS: StationConfig[] = [
+  { code: 'MERCH', name: 'Merch', short: 'MERCH', color: '#ec4899', order: 0, sales: true },
+  { code: 'BEER', name: 'Beer', short: 'BEER', color: '#f59e0b', order: 1, sales: true },
+  { code: 'TICKETS', name: 'Tickets', short: 'TICKETS', color: '#06b6d4', order: 2, sales: true, admissions: true },
+  { code: 'PRODUCTION', name: 'Production', short: 'PROD', color: '#8b5cf6', order: 3 }
+];
+
+const RESERVED_STATION_CODES = ['COORDINATOR', 'SYSTEM'];
+const STATION_PALETTE = ['#22c55e', '#ef4444', '#3b82f6', '#f97316', '#14b8a6', '#e879f9', '#a3e635'];
+
+// Station lists saved before the sales flag existed follow the defaults
+const isSalesStation = (station: StationConfig) =>
+  station.sales ?? !!DEFAULT_STATIONS.find(st => st.code === station.code)?.sales;
+
+const isAdmissionsStation = (station: StationConfig) =>
+  station.admissions ?? !!DEFAULT_STATIONS.find(st => st.code === station.code)?.admissions;
+
+const sortStations = (stations: StationConfig[]) => [...stations].sort((a, b) => a.order - b.order);
+
+// "50/50 Raffle" -> "50_50_RAFFLE", kept unique within the event
+const makeStationCode = (name: string, taken: string[]) => {
+  const base = name.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '').slice(0, 16) || 'STATION';
+  let code = base;
+  for (let i = 2; taken.includes(code) || RESERVED_STATION_CODES.includes(code); i++) {
+    code = `${base}_${i}`;
+  }
+  return code;
+};
+
+// Inline CSS variables for a station's badge and card colours, with dark
+// text on light colours the way the original fixed palette had it
+const stationVars = (station: StationConfig) => {
+  const n = parseInt(station.color.replace('#', ''), 16) || 0;
+  const [r, g, b] = [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+  const ink = (r * 299 + g * 587 + b * 114) / 1000 > 128 ? '#000' : '#fff';
+  return { '--station': station.color, '--station-rgb': `${r}, ${g}, ${b}`, '--station-ink': ink } as React.CSSProperties;
+};
 
 interface Message {
   id: number;
+  event_id: string;
   time: string;
   station: Station;
   text: string;
+  created_at: string;
+  kind?: 'chat' | 'capacity_alert' | 'coordinator_change' | 'low_stock' | 'cue';
+  alert_level?: number | null;
+  needs_ack?: boolean;
+  urgent?: boolean;
+  // Empty or missing means the whole event; station is always the real sender
+  recipients?: Station[] | null;
+  // Set on scheduled cues; unique per event so only one device's post lands
+  cue_id?: string | null;
+}
+
+const isAddressedTo = (msg: Message, station: Station) => !!msg.recipients?.includes(station);
+
+// Adds loaded messages the live window no longer holds
+const withKeptMessages = (live: Message[], kept: Message[]) => {
+  const liveIds = new Set(live.map(m => m.id));
+  return [...kept.filter(m => !liveIds.has(m.id)), ...live];
+};
+
+// One row per station that acknowledged a message
+interface MessageAck {
+  message_id: number;
+  event_id: string;
+  station: Station;
+  device_id: string;
+  created_at: string;
+}
+
+// A needs-ack message is open until some station other than the sender acks it
+const isAwaitingAck = (msg: Message, acks: MessageAck[]) =>
+  !!msg.needs_ack && !acks.some(a => a.message_id === msg.id && a.station !== msg.station);
+
+// Named venue doors
+type DoorId = 'MAIN' | 'SIDE' | 'STAFF';
+const DOORS: { id: DoorId; label: string }[] = [
+  { id: 'MAIN', label: 'Main' },
+  { id: 'SIDE', label: 'Side' },
+  { id: 'STAFF', label: 'Staff' }
+];
+
+type TapKind = 'ENTRY' | 'EXIT';
+
+// Counts that several devices change at once are kept as ledgers: every
+// change is its own inserted row and the total is summed from them, so
+// devices writing together or catching up after a dropout never overwrite
+// each other, and a mistake is fixed with a correcting row.
+// Door taps are the headcount's ledger. An entry is +1 and an exit -1; a row
+// whose sign disagrees with its kind is a correction.
+interface DoorTap {
+  id: string;
+  event_id: string;
+  door: DoorId;
+  kind: TapKind;
+  delta: number;
+  device_id: string;
+  role?: string | null;
+  created_at: string;
+}
+
+interface DoorTally {
+  entries: number;
+  exits: number;
+}
+
+// Rows recorded before doors were named only carry a delta
+const getTapKind = (tap: DoorTap): TapKind => tap.kind || (tap.delta > 0 ? 'ENTRY' : 'EXIT');
+const isCorrection = (tap: DoorTap) => (getTapKind(tap) === 'ENTRY') !== (tap.delta > 0);
+
+const tallyDoors = (taps: DoorTap[]) => {
+  const tally: Record<string, DoorTally> = {};
+  DOORS.forEach(d => { tally[d.id] = { entries: 0, exits: 0 }; });
+  taps.forEach(tap => {
+    const door = tally[tap.door || 'MAIN'] || (tally[tap.door] = { entries: 0, exits: 0 });
+    if (getTapKind(tap) === 'ENTRY') {
+      door.entries += tap.delta;
+    } else {
+      door.exits -= tap.delta;
+    }
+  });
+  return tally;
+};
+
+// Finds this device's most recent tap that hasn't already been corrected
+const findUndoableTap = (taps: DoorTap[], deviceId: string) => {
+  const stack: DoorTap[] = [];
+  taps.filter(tap => tap.device_id === deviceId).forEach(tap => {
+    if (isCorrection(tap)) {
+      stack.pop();
+    } else {
+      stack.push(tap);
+    }
+  });
+  return stack.length > 0 ? stack[stack.length - 1] : null;
+};
+
+// --- TICKETS ---
+// The presale / will-call list is imported per event. Every accepted scan is
+// its own check-in row, so two door devices admitting the same code while out
+// of sync both land, and the code shows up as a double entry instead of one
+// scan silently winning.
+interface Ticket {
+  event_id: string;
+  code: string;
+  name: string;
+  tier: string;
+  comp: boolean;
+  created_at: string;
+}
+
+interface TicketCheckin {
+  id: string;
+  event_id: string;
+  code: string;
+  door: DoorId;
+  tap_id: string | null;
+  device_id: string;
+  created_at: string;
+  // Set when the door tap it recorded is corrected away
+  voided_at: string | null;
+}
+
+type TicketCheckStatus = 'OK' | 'USED' | 'UNKNOWN';
+
+interface TicketCheckResult {
+  status: TicketCheckStatus;
+  code: string;
+  ticket?: Ticket;
+  previous?: TicketCheckin;
+}
+
+// Printed codes get read out and retyped, so ignore case and stray spaces
+const normalizeTicketCode = (code: string) => code.replace(/\s+/g, '').toUpperCase();
+
+const isTruthyFlag = (value: string) => ['1', 'y', 'yes', 'true', 'comp'].includes(value.trim().toLowerCase());
+
+// Columns are matched by header name, so exports from any box office work as
+// long as they have a code column
+const parseTicketCsv = (text: string, eventId: string) => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header || []).map(h => h.trim().toLowerCase());
+  const column = (row: string[], name: string) => (row[columns.indexOf(name)] || '').trim();
+  if (!columns.includes('code')) throw new Error('The CSV needs a "code" column');
+
+  const tickets = new Map<string, Ticket>();
+  let skipped = 0;
+  const createdAt = new Date().toISOString();
+  rows.forEach(row => {
+    const code = normalizeTicketCode(column(row, 'code'));
+    if (!code || tickets.has(code)) {
+      if (row.some(cell => cell.trim())) skipped++;
+      return;
+    }
+    tickets.set(code, {
+      event_id: eventId,
+      code,
+      name: column(row, 'name'),
+      tier: column(row, 'tier'),
+      comp: isTruthyFlag(column(row, 'comp')),
+      created_at: createdAt
+    });
+  });
+  return { tickets: [...tickets.values()], skipped };
+};
+
+const activeCheckins = (checkins: TicketCheckin[]) => checkins.filter(c => !c.voided_at);
+
+const checkTicket = (rawCode: string, tickets: Ticket[], checkins: TicketCheckin[]): TicketCheckResult => {
+  const code = normalizeTicketCode(rawCode);
+  const ticket = tickets.find(t => t.code === code);
+  if (!ticket) return { status: 'UNKNOWN', code };
+  const previous = activeCheckins(checkins).find(c => c.code === code);
+  return previous ? { status: 'USED', code, ticket, previous } : { status: 'OK', code, ticket };
+};
+
+const reconcileTickets = (tickets: Ticket[], checkins: TicketCheckin[]) => {
+  const byCode = new Map<string, TicketCheckin[]>();
+  activeCheckins(checkins).forEach(c => byCode.set(c.code, [...(byCode.get(c.code) || []), c]));
+
+  const tiers = new Map<string, { tier: string; listed: number; arrived: number }>();
+  tickets.forEach(t => {
+    const tier = tiers.get(t.tier) || { tier: t.tier, listed: 0, arrived: 0 };
+    tier.listed++;
+    if (byCode.has(t.code)) tier.arrived++;
+    tiers.set(t.tier, tier);
+  });
+
+  return {
+    listed: tickets.length,
+    comps: tickets.filter(t => t.comp).length,
+    arrived: tickets.filter(t => byCode.has(t.code)).length,
+    // Scans that added to the headcount; double entries count every time
+    admitted: [...byCode.values()].reduce((sum, list) => sum + list.length, 0),
+    doubleEntries: [...byCode.entries()]
+      .filter(([, list]) => list.length > 1)
+      .map(([code, list]) => ({ code, ticket: tickets.find(t => t.code === code), checkins: list })),
+    tiers: [...tiers.values()].sort((a, b) => a.tier.localeCompare(b.tier))
+  };
+};
+
+// --- INVENTORY ---
+// Each station keeps its own stock list. An item row is one sellable variant
+// (Shirt / M, Keg / IPA). Remaining stock is the starting stock plus every
+// sale, restock and correction in its moves ledger.
+interface InventoryItem {
+  id: string;
+  event_id: string;
+  station: Station;
+  name: string;
+  variant: string;
+  start_stock: number;
+  // The station gets a low-stock message when remaining falls to this
+  low_stock_at: number;
+  archived: boolean;
+  created_at: string;
+}
+
+type InventoryMoveKind = 'SALE' | 'RESTOCK' | 'CORRECTION';
+
+interface InventoryMove {
+  id: string;
+  event_id: string;
+  item_id: string;
+  station: Station;
+  kind: InventoryMoveKind;
+  delta: number;
+  // The move a CORRECTION reverses
+  corrects: string | null;
+  device_id: string;
+  created_at: string;
+}
+
+const itemLabel = (item: InventoryItem) => item.variant ? `${item.name} (${item.variant})` : item.name;
+
+const stockLevels = (items: InventoryItem[], moves: InventoryMove[]) => {
+  const levels: Record<string, number> = {};
+  items.forEach(item => { levels[item.id] = item.start_stock; });
+  moves.forEach(move => {
+    if (move.item_id in levels) levels[move.item_id] += move.delta;
+  });
+  return levels;
+};
+
+const isLowStock = (item: InventoryItem, remaining: number) => remaining <= item.low_stock_at;
+
+// This device's most recent move at a station that hasn't been corrected yet
+const findUndoableMove = (moves: InventoryMove[], deviceId: string, station: Station) => {
+  const corrected = new Set(moves.map(m => m.corrects).filter(Boolean));
+  const own = moves.filter(m => m.device_id === deviceId && m.station === station && m.kind !== 'CORRECTION' && !corrected.has(m.id));
+  return own.length > 0 ? own[own.length - 1] : null;
+};
+
+// --- SALES ---
+// Sales stations ring up each transaction with its payment method; amounts
+// are stored in cents. At close each station counts its till, and the report
+// compares that against what the transactions say should be there.
+type PaymentMethod = 'CASH' | 'CARD';
+const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'CARD'];
+
+interface Sale {
+  id: string;
+  event_id: string;
+  station: Station;
+  method: PaymentMethod;
+  amount: number;
+  device_id: string;
+  created_at: string;
+  voided_at: string | null;
+}
+
+// A station can close out more than once (a recount); the latest one counts
+interface StationCloseout {
+  id: string;
+  event_id: string;
+  station: Station;
+  opening_float: number;
+  counted_cash: number;
+  counted_card: number;
+  note: string;
+  device_id: string;
+  created_at: string;
+}
+
+// "$12.50", "12.5" and "12" all work; anything else is null
+const parseMoney = (text: string) => {
+  const value = parseFloat(text.replace(/[$,\s]/g, ''));
+  return isNaN(value) || value < 0 ? null : Math.round(value * 100);
+};
+
+const formatMoney = (cents: number) => `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+// Over is positive, short is negative
+const formatVariance = (cents: number) => cents === 0 ? 'even' : `${cents > 0 ? '+' : ''}${formatMoney(cents)}`;
+
+const reconcileSales = (stations: StationConfig[], sales: Sale[], closeouts: StationCloseout[]) => {
+  const live = sales.filter(sale => !sale.voided_at);
+  return stations
+    .filter(st => isSalesStation(st) || live.some(sale => sale.station === st.code))
+    .map(st => {
+      const own = live.filter(sale => sale.station === st.code);
+      const total = (method: PaymentMethod) => own.filter(sale => sale.method === method).reduce((sum, sale) => sum + sale.amount, 0);
+      const closeout = closeouts.filter(c => c.station === st.code).sort((a, b) => a.created_at.localeCompare(b.created_at)).pop() || null;
+      const cash = total('CASH');
+      const card = total('CARD');
+      const expectedCash = cash + (closeout?.opening_float || 0);
+      return {
+        station: st,
+        count: own.length,
+        cash,
+        card,
+        closeout,
+        expectedCash,
+        cashVariance: closeout ? closeout.counted_cash - expectedCash : null,
+        cardVariance: closeout ? closeout.counted_card - card : null
+      };
+    });
+};
+
+// --- INCIDENTS ---
+// Medical, security and facilities issues are tracked apart from chat, with
+// a timestamp for each status so the insurer's incident log can show
+// response times. Anyone assigned can report, respond and resolve.
+type IncidentCategory = 'MEDICAL' | 'SECURITY' | 'FACILITIES' | 'OTHER';
+const INCIDENT_CATEGORIES: IncidentCategory[] = ['MEDICAL', 'SECURITY', 'FACILITIES', 'OTHER'];
+
+type IncidentSeverity = 'HIGH' | 'MEDIUM' | 'LOW';
+const INCIDENT_SEVERITIES: IncidentSeverity[] = ['HIGH', 'MEDIUM', 'LOW'];
+
+type IncidentStatus = 'OPEN' | 'RESPONDING' | 'RESOLVED';
+
+interface Incident {
+  id: string;
+  event_id: string;
+  category: IncidentCategory;
+  severity: IncidentSeverity;
+  location: string;
+  description: string;
+  reported_by: Station;
+  device_id: string;
+  assignee: Station | null;
+  status: IncidentStatus;
+  created_at: string;
+  responding_at: string | null;
+  resolved_at: string | null;
+  resolution: string;
+}
+
+interface IncidentDraft {
+  category: IncidentCategory;
+  severity: IncidentSeverity;
+  location: string;
+  description: string;
+}
+
+const EMPTY_INCIDENT_DRAFT: IncidentDraft = { category: 'MEDICAL', severity: 'MEDIUM', location: '', description: '' };
+
+// Worst first, then oldest first
+const sortOpenIncidents = (incidents: Incident[]) =>
+  incidents
+    .filter(incident => incident.status !== 'RESOLVED')
+    .sort((a, b) => INCIDENT_SEVERITIES.indexOf(a.severity) - INCIDENT_SEVERITIES.indexOf(b.severity) || a.created_at.localeCompare(b.created_at));
+
+const minutesBetween = (from: string, to: string | null) =>
+  to ? ((new Date(to).getTime() - new Date(from).getTime()) / 60000).toFixed(1) : '';
+
+// --- QUICK MESSAGES ---
+// One-tap canned messages, kept on event_state and edited by the BC. A
+// template with no station shows for everyone. Words in braces are blanks
+// the sender fills at send time: "Out of {item}" asks for the item.
+interface QuickMessage {
+  id: string;
+  station: Station | null;
+  text: string;
+  urgent: boolean;
+}
+
+// Used by events whose BC hasn't set their own
+const DEFAULT_QUICK_MESSAGES: QuickMessage[] = [
+  { id: 'need-change', station: null, text: 'Need change', urgent: false },
+  { id: 'out-of', station: null, text: 'Out of {item}', urgent: false },
+  { id: 'line', station: null, text: 'Line > {count} people', urgent: false },
+  { id: 'need-hand', station: null, text: 'Need a hand here', urgent: true }
+];
+
+const getTemplateParams = (text: string) =>
+  [...new Set([...text.matchAll(/\{(\w+)\}/g)].map(m => m[1]))];
+
+const fillTemplate = (text: string, values: Record<string, string>) =>
+  text.replace(/\{(\w+)\}/g, (_, key: string) => values[key]?.trim() || key);
+
+// Count-like blanks get the number pad
+const isNumericParam = (key: string) => /count|num|qty|amount/i.test(key);
+
+// --- RUN OF SHOW ---
+// The bout schedule lives on event_state. Segment times are venue wall-clock
+// times on the show date; a time earlier than the segment before it is taken
+// to be after midnight. Cues hang off a segment, minutes before (negative) or
+// after its start, and post themselves to their stations when due.
+interface ShowSegment {
+  id: string;
+  label: string;
+  time: string;
+}
+
+interface ShowCue {
+  id: string;
+  segment_id: string;
+  offset: number;
+  text: string;
+  recipients: Station[];
+  urgent: boolean;
+}
+
+interface RunOfShow {
+  date: string;
+  segments: ShowSegment[];
+  cues: ShowCue[];
+}
+
+const EMPTY_RUN_OF_SHOW: RunOfShow = { date: '', segments: [], cues: [] };
+
+// Starting point offered to a BC building the first schedule
+const DEFAULT_SEGMENTS: [string, string][] = [
+  ['Doors', '18:00'],
+  ['Anthem', '18:55'],
+  ['Period 1', '19:00'],
+  ['Halftime', '19:30'],
+  ['Period 2', '19:45'],
+  ['After-party', '21:00']
+];
+
+// A cue that came due while nobody could post it is dropped after this,
+// rather than arriving long after it stopped being useful
+const CUE_GRACE_MS = 5 * 60 * 1000;
+const CLOCK_SYNC_MS = 5 * 60 * 1000;
+
+const toLocalDate = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const buildTimeline = (show: RunOfShow) => {
+  if (!show.date) return [];
+  const [year, month, day] = show.date.split('-').map(Number);
+  let previous = 0;
+  return show.segments
+    .filter(segment => /^\d{1,2}:\d{2}$/.test(segment.time))
+    .map(segment => {
+      const [hours, minutes] = segment.time.split(':').map(Number);
+      let at = new Date(year, month - 1, day, hours, minutes).getTime();
+      while (at < previous) at += 24 * 60 * 60 * 1000;
+      previous = at;
+      return { segment, at };
+    });
+};
+
+type ShowTimeline = ReturnType<typeof buildTimeline>;
+
+const scheduleCues = (show: RunOfShow, timeline: ShowTimeline) =>
+  show.cues.flatMap(cue => {
+    const start = timeline.find(t => t.segment.id === cue.segment_id);
+    return start ? [{ cue, segment: start.segment, at: start.at + cue.offset * 60 * 1000 }] : [];
+  }).sort((a, b) => a.at - b.at);
+
+const describeOffset = (offset: number) =>
+  offset < 0 ? `in ${-offset} min` : offset > 0 ? `+${offset} min` : 'now';
+
+// Each event owns an event_state row plus its own messages and door taps
+interface EventSummary {
+  id: string;
+  name: string;
+  archived: boolean;
+  created_at: string;
+}
+
+// The rest of the row: settings every device at the event shares
+interface EventState extends EventSummary {
+  capacity: number;
+  milestones: Milestones | null;
+  alert_levels: number[] | null;
+  wifi_ssid: string | null;
+  wifi_pass: string | null;
+  coordinator_pin_hash: string | null;
+  coordinator_device_id: string | null;
+  stations: StationConfig[] | null;
+  run_of_show: RunOfShow | null;
+  quick_messages: QuickMessage[] | null;
 }
 
-interface UserPresence {
-  presence_ref: string;
-  device_id: string;
-  role: string;
-  online_at: string;
-}
+const makeEventId = (name: string) => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 32);
+  return `${slug || 'event'}-${Math.random().toString(36).substr(2, 4)}`;
+};
+
+// --- COORDINATOR ROLE ---
+// Each event stores a PIN hash and the device currently holding the BC role.
+// The PIN only keeps the wrong phone out of the role: anyone with the database
+// key can read the hash and a short PIN is easy to brute force, so a fast hash
+// that also works on plain-http LAN installs (no crypto.subtle) is enough.
+const MIN_PIN_LENGTH = 4;
+
+const hashPin = (eventId: string, pin: string) => {
+  const input = `${eventId}:${pin}`;
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+// Default warning levels, in percent of capacity
+const DEFAULT_ALERT_LEVELS = [80, 95, 100];
+
+const parseAlertLevels = (input: string) =>
+  Array.from(new Set(input.split(/[\s,]+/).map(v => parseInt(v)).filter(v => v > 0 && v <= 200))).sort((a, b) => a - b);
+
+// Short two-tone chime; browsers only allow audio after a user gesture, which
+// every station has made by the time the venue fills up
+const playAlertTone = () => {
+  try {
+    const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+    const ctx = new AudioCtx();
+    [880, 660].forEach((freq, i) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.value = freq;
+      gain.gain.value = 0.2;
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(ctx.currentTime + i * 0.25);
+      osc.stop(ctx.currentTime + i * 0.25 + 0.2);
+    });
+    setTimeout(() => ctx.close(), 1000);
+  } catch (err) {
+    console.warn('Alert tone unavailable', err);
+  }
+};
+
+// --- NOTIFICATIONS ---
+// How incoming messages get a volunteer's attention, saved per role on the
+// device so a shared phone moving from BEER to the door picks up the door's
+interface NotifyPrefs {
+  notify: boolean;      // system notification while the app is in the background
+  chime: boolean;
+  vibrate: boolean;
+  everything: boolean;  // every message, not just the ones meant for this role
+}
+
+const DEFAULT_NOTIFY_PREFS: NotifyPrefs = { notify: true, chime: true, vibrate: true, everything: false };
+const URGENT_BUZZ = [300, 100, 300];
+
+// Anything older arrived from a history reload, an undo or a long-stuck
+// outbox, and goes into the log quietly
+const NOTIFY_MAX_AGE_MS = 2 * 60 * 1000;
+
+const loadNotifyPrefs = (role: string): NotifyPrefs => {
+  try {
+    return { ...DEFAULT_NOTIFY_PREFS, ...JSON.parse(localStorage.getItem(`derby_notify_${role}`) || '{}') };
+  } catch {
+    return DEFAULT_NOTIFY_PREFS;
+  }
+};
+
+// Stations hear about messages sent to them, the BC's announcements and
+// anything urgent; the BC hears everything the stations say
+const isNotifiable = (msg: Message, station: Station, everything: boolean) => {
+  if (msg.station === station) return false;
+  if (msg.recipients?.length) return msg.recipients.includes(station) || everything;
+  return everything || !!msg.urgent || msg.station === 'COORDINATOR' || station === 'COORDINATOR';
+};
+
+// Goes through the service worker, which is the only way phones show them
+const showSystemNotification = (title: string, msg: Message, vibrate: boolean) => {
+  if (!('serviceWorker' in navigator) || typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  navigator.serviceWorker.ready
+    .then(reg => reg.showNotification(title, {
+      body: msg.text,
+      tag: `bcs-${msg.id || msg.created_at}`,
+      icon: '/icon.svg',
+      badge: '/icon.svg',
+      requireInteraction: !!msg.urgent,
+      silent: !vibrate,
+      vibrate: vibrate ? (msg.urgent ? URGENT_BUZZ : [200]) : undefined
+    } as NotificationOptions))
+    .catch(err => console.warn('Notification unavailable', err));
+};
+
+// Moments the coordinator marks on the night's timeline
+type MilestoneId = 'doors_open' | 'first_whistle' | 'halftime';
+type Milestones = Partial<Record<MilestoneId, string>>;
+const MILESTONES: { id: MilestoneId; label: string; short: string }[] = [
+  { id: 'doors_open', label: 'Doors Open', short: 'DOORS' },
+  { id: 'first_whistle', label: 'First Whistle', short: 'WHISTLE' },
+  { id: 'halftime', label: 'Halftime', short: 'HALF' }
+];
+
+// Reset snapshots an event's log and tap ledger here before clearing it
+interface EventArchive {
+  id: string;
+  event_id: string;
+  created_at: string;
+  created_by: string;
+  door_count: number;
+  messages: Message[];
+  door_taps: DoorTap[];
+  message_acks: MessageAck[];
+  ticket_checkins?: TicketCheckin[];
+  inventory_moves?: InventoryMove[];
+  sales?: Sale[];
+  station_closeouts?: StationCloseout[];
+  incidents?: Incident[];
+  milestones: Milestones;
+  restored_at: string | null;
+}
+
+const RESET_UNDO_MS = 5 * 60 * 1000;
+
+// A reset deletes ledgers row by row; a device reloads once the burst is over
+const DELETE_RELOAD_MS = 750;
+
+const canUndoArchive = (archive: EventArchive, now: number) =>
+  !archive.restored_at && now - new Date(archive.created_at).getTime() < RESET_UNDO_MS;
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  if (totalSeconds < 3600) return `${Math.floor(totalSeconds / 60)}:${seconds}`;
+  return `${Math.floor(totalSeconds / 3600)}:${(Math.floor(totalSeconds / 60) % 60).toString().padStart(2, '0')}:${seconds}`;
+};
+
+// Audit trail of event_state edits (capacity, WiFi etc.): which device and
+// role changed a field, from what to what. Rows written before the trail
+// existed only carry the new value, in value.
+interface StateChange {
+  id: string;
+  event_id: string;
+  field: string;
+  value?: any;
+  prev_value?: any;
+  new_value?: any;
+  role?: string | null;
+  device_id: string;
+  created_at: string;
+}
+
+const changeValue = (change: StateChange) => change.new_value ?? change.value;
+
+const AUDIT_LABELS: Record<string, string> = {
+  capacity: 'Capacity',
+  wifi_ssid: 'WiFi name',
+  wifi_pass: 'WiFi password',
+  alert_levels: 'Alert levels',
+  milestones: 'Milestones',
+  stations: 'Stations',
+  run_of_show: 'Run of show',
+  quick_messages: 'Quick messages',
+  coordinator_device_id: 'BC device',
+  coordinator_pin_hash: 'BC PIN'
+};
+
+// A PIN hash is never worth keeping twice; its row only says it changed
+const REDACTED_FIELDS = ['coordinator_pin_hash'];
+
+const formatAuditValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    return value.every(v => typeof v !== 'object') ? value.join(', ') : `${value.length} entries`;
+  }
+  if (typeof value === 'object') {
+    const text = JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  }
+  return String(value);
+};
+
+interface AuditEntry {
+  id: string;
+  at: string;
+  label: string;
+  from: string;
+  to: string;
+  role: string | null;
+  device_id: string;
+}
+
+// Setting changes plus door count corrections, newest first. Ordinary taps
+// are left out; the attendance export has those.
+const buildAuditTrail = (changes: StateChange[], taps: DoorTap[]): AuditEntry[] => {
+  let count = 0;
+  const corrections: AuditEntry[] = [];
+  [...taps].sort((a, b) => a.created_at.localeCompare(b.created_at)).forEach(tap => {
+    const before = count;
+    count += tap.delta;
+    if (!isCorrection(tap)) return;
+    corrections.push({
+      id: tap.id,
+      at: tap.created_at,
+      label: `${tap.door || 'MAIN'} door correction`,
+      from: String(Math.max(0, before)),
+      to: String(Math.max(0, count)),
+      role: tap.role || null,
+      device_id: tap.device_id
+    });
+  });
+
+  return [
+    ...changes.map(change => ({
+      id: change.id,
+      at: change.created_at,
+      label: AUDIT_LABELS[change.field] || change.field,
+      from: formatAuditValue(change.prev_value),
+      to: formatAuditValue(changeValue(change)),
+      role: change.role || null,
+      device_id: change.device_id
+    })),
+    ...corrections
+  ].sort((a, b) => b.at.localeCompare(a.at));
+};
+
+// --- EXPORT HELPERS ---
+const toCsv = (rows: Record<string, any>[], columns: string[]) => {
+  const escape = (value: any) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns.join(','), ...rows.map(row => columns.map(c => escape(row[c])).join(','))].join('\n');
+};
+
+// Handles quoted fields, doubled quotes and CRLF line endings
+const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Merges door taps and capacity edits into one timeline with running totals
+const buildAttendanceSeries = (taps: DoorTap[], changes: StateChange[]) => {
+  const entries = [
+    ...taps.map(tap => ({ at: tap.created_at, tap, change: null as StateChange | null })),
+    ...changes.filter(c => c.field === 'capacity').map(change => ({ at: change.created_at, tap: null as DoorTap | null, change }))
+  ].sort((a, b) => a.at.localeCompare(b.at));
+
+  let occupancy = 0;
+  let capacity: number | '' = '';
+  return entries.map(({ at, tap, change }) => {
+    if (tap) occupancy += tap.delta;
+    if (change) capacity = Number(changeValue(change));
+    return {
+      timestamp: new Date(at).toISOString(),
+      type: tap ? (isCorrection(tap) ? 'correction' : 'tap') : 'capacity',
+      door: tap ? tap.door || 'MAIN' : '',
+      kind: tap ? getTapKind(tap) : '',
+      delta: tap ? tap.delta : '',
+      occupancy: Math.max(0, occupancy),
+      capacity,
+      device_id: tap ? tap.device_id : change!.device_id
+    };
+  });
+};
+
+interface UserPresence {
+  presence_ref?: string;
+  device_id: string;
+  role: string;
+  name?: string;
+  online_at: string;
+  heartbeat_at?: string;
+}
+
+// Devices re-track on a timer. One that stops (usually a locked phone) is
+// flagged stale well before the presence channel notices it has gone.
+const ROSTER_HEARTBEAT_MS = 30000;
+const ROSTER_STALE_MS = 90000;
+
+const isStalePresence = (peer: UserPresence, now: number) =>
+  now - new Date(peer.heartbeat_at || peer.online_at).getTime() > ROSTER_STALE_MS;
+
+// e.g. "45s", "12m", "2h 5m"
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+// --- LOGO COMPONENT ---
+const BcsLogo = () => (
+  <svg width="24" height="24" viewBox="0 0 64 64" fill="none" className="app-logo">
+    <rect x="8" y="8" width="48" height="48" rx="8" stroke="currentColor" strokeWidth="4" className="logo-rect"/>
+    <path d="M32 8 V24 M32 40 V56 M8 32 H24 M40 32 H56" stroke="currentColor" strokeWidth="4" className="logo-lines"/>
+    <circle cx="32" cy="32" r="6" fill="currentColor" className="logo-dot"/>
+  </svg>
+);
+
+// Display time stored on each message, e.g. "7:05 PM"
+const formatMessageTime = (date: Date) => {
+  const hours = date.getHours();
+  const minutes = date.getMinutes();
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  const hour12 = hours % 12 || 12;
+  return `${hour12}:${minutes.toString().padStart(2, '0')} ${ampm}`;
+};
+
+const generateDeviceId = () => {
+  let id = localStorage.getItem('derby_device_id');
+  if (!id) {
+    id = 'dev_' + Math.random().toString(36).substr(2, 9);
+    localStorage.setItem('derby_device_id', id);
+  }
+  return id;
+};
+
+// --- ATTENDANCE CHART ---
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+
+const formatClock = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// Step chart of occupancy built from the tap ledger. Pass endTime while live so
+// the line runs up to "now"; leave it out to replay a finished event.
+const AttendanceChart = ({ taps, capacity, milestones, endTime }: {
+  taps: DoorTap[];
+  capacity: number;
+  milestones: Milestones;
+  endTime?: number;
+}) => {
+  let running = 0;
+  const points = [...taps]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(tap => {
+      running += tap.delta;
+      return { time: new Date(tap.created_at).getTime(), value: Math.max(0, running) };
+    });
+  const marks = MILESTONES
+    .filter(m => milestones[m.id])
+    .map(m => ({ ...m, time: new Date(milestones[m.id]!).getTime() }));
+
+  if (points.length === 0 && marks.length === 0) return null;
+
+  const times = [...points.map(p => p.time), ...marks.map(m => m.time)];
+  const start = Math.min(...times);
+  const end = Math.max(endTime || 0, ...times);
+  const span = Math.max(end - start, 60 * 1000);
+  const peak = Math.max(capacity, ...points.map(p => p.value), 1);
+
+  const x = (time: number) => ((time - start) / span) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - (value / peak) * (CHART_HEIGHT - 14);
+
+  const line = `M 0 ${y(0)} ` + points.map(p => `H ${x(p.time)} V ${y(p.value)}`).join(' ') + ` H ${x(end)}`;
+
+  return (
+    <div className="attendance-chart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="chart-svg">
+        <path d={`${line} V ${CHART_HEIGHT} H 0 Z`} className="chart-area" />
+        <path d={line} className="chart-line" />
+        <line x1="0" x2={CHART_WIDTH} y1={y(capacity)} y2={y(capacity)} className="chart-capacity" />
+        {marks.map(mark => (
+          <g key={mark.id}>
+            <line x1={x(mark.time)} x2={x(mark.time)} y1="10" y2={CHART_HEIGHT} className="chart-mark" />
+            <text x={x(mark.time)} y="8" className="chart-mark-label">{mark.short}</text>
+          </g>
+        ))}
+      </svg>
+      <div className="chart-axis">
+        <span>{formatClock(start)}</span>
+        <span>Peak {Math.max(0, ...points.map(p => p.value))}</span>
+        <span>{formatClock(end)}</span>
+      </div>
+    </div>
+  );
+};
+
+// --- SYNC HELPERS ---
+// App-side wrappers around the SyncBackend calls (see sync.ts)
+// Fallback clock: the Date header from whoever served the app (seconds only)
+const fetchOriginTime = async () => {
+  try {
+    const response = await fetch(window.location.href, { method: 'HEAD', cache: 'no-store' });
+    const date = response.headers.get('Date');
+    return date ? new Date(date).getTime() : null;
+  } catch {
+    return null;
+  }
+};
+
+// PostgREST caps each response (1000 rows by default), so page through ledgers
+const fetchAllRows = async <T,>(backend: SyncBackend, table: string, options: SelectOptions, pageSize = 1000) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await backend.select<T>(table, { ...options, range: [from, from + pageSize - 1] });
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < pageSize) return rows;
+  }
+};
+
+// RLS drops rows it blocks without an error, so a write that should have
+// touched rows and came back with none failed as well
+const assertWrite = (label: string, result: SyncResult, expectedRows = 1) => {
+  if (result.error) throw new Error(`${label}: ${result.error.message}`);
+  if (expectedRows > 0 && Array.isArray(result.data) && result.data.length === 0) {
+    throw new Error(`${label}: blocked by row-level security`);
+  }
+};
+
+// Sync calls reject with Errors or hand back SyncError objects
+const errorMessage = (err: unknown) =>
+  typeof err === 'object' && err !== null && 'message' in err ? String(err.message) : String(err);
+
+// Deletes exactly the listed rows, in batches small enough for a request URL
+const REMOVE_BATCH = 100;
+const removeByIds = async (backend: SyncBackend, table: string, column: string, ids: (string | number)[]): Promise<SyncResult<Row[]>> => {
+  const removed: Row[] = [];
+  for (let i = 0; i < ids.length; i += REMOVE_BATCH) {
+    const result = await backend.remove(table, { [column]: { in: ids.slice(i, i + REMOVE_BATCH) } });
+    if (result.error) return result;
+    removed.push(...(result.data || []));
+  }
+  return { data: removed, error: null, status: 200 };
+};
+
+// --- SETUP CHECK ---
+// What the app needs from a Supabase project, kept in step with the README
+// schema. The setup check compares a project against it and writes the SQL
+// for whatever is missing.
+interface SchemaTable {
+  name: string;
+  columns: [string, string][];
+  constraints?: string[];
+  extra?: string[];
+  // The app subscribes to its inserts, so live updates are checked too
+  realtime: boolean;
+}
+
+const CREATED_AT: [string, string] = ['created_at', 'timestamptz not null default now()'];
+
+// Referenced tables come before the tables that reference them
+const SCHEMA: SchemaTable[] = [
+  {
+    name: 'event_state',
+    columns: [
+      ['id', 'text primary key'],
+      ['name', 'text'],
+      ['archived', 'boolean not null default false'],
+      ['capacity', 'integer not null default 300'],
+      ['wifi_ssid', 'text'],
+      ['wifi_pass', 'text'],
+      ['milestones', "jsonb not null default '{}'"],
+      ['alert_levels', "integer[] not null default '{80,95,100}'"],
+      ['coordinator_pin_hash', 'text'],
+      ['coordinator_device_id', 'text'],
+      ['stations', 'jsonb'],
+      ['run_of_show', 'jsonb'],
+      ['quick_messages', 'jsonb'],
+      CREATED_AT
+    ],
+    realtime: true
+  },
+  {
+    name: 'messages',
+    columns: [
+      ['id', 'bigserial primary key'],
+      ['event_id', "text not null default 'global_event'"],
+      ['time', 'text not null'],
+      ['station', 'text not null'],
+      ['text', 'text not null'],
+      ['kind', "text not null default 'chat'"],
+      ['alert_level', 'integer'],
+      ['needs_ack', 'boolean not null default false'],
+      ['urgent', 'boolean not null default false'],
+      ['recipients', 'text[]'],
+      ['cue_id', 'text'],
+      CREATED_AT
+    ],
+    extra: [
+      'create index if not exists messages_event_created_idx on messages (event_id, created_at desc);',
+      'create unique index if not exists messages_event_cue_idx on messages (event_id, cue_id);'
+    ],
+    realtime: true
+  },
+  {
+    name: 'message_acks',
+    columns: [
+      ['message_id', 'bigint not null references messages(id) on delete cascade'],
+      ['event_id', 'text not null'],
+      ['station', 'text not null'],
+      ['device_id', 'text'],
+      CREATED_AT
+    ],
+    constraints: ['primary key (message_id, station)'],
+    realtime: true
+  },
+  {
+    name: 'door_taps',
+    columns: [
+      ['id', 'uuid primary key'],
+      ['event_id', "text not null default 'global_event'"],
+      ['door', "text not null default 'MAIN'"],
+      ['kind', 'text not null'],
+      ['delta', 'integer not null'],
+      ['device_id', 'text'],
+      ['role', 'text'],
+      CREATED_AT
+    ],
+    realtime: true
+  },
+  {
+    name: 'event_archives',
+    columns: [
+      ['id', 'uuid primary key'],
+      ['event_id', 'text not null'],
+      ['created_by', 'text'],
+      ['door_count', 'integer not null default 0'],
+      ...['messages', 'door_taps', 'message_acks', 'ticket_checkins', 'inventory_moves', 'sales', 'station_closeouts', 'incidents']
+        .map((column): [string, string] => [column, "jsonb not null default '[]'"]),
+      ['milestones', "jsonb not null default '{}'"],
+      ['restored_at', 'timestamptz'],
+      CREATED_AT
+    ],
+    realtime: true
+  },
+  {
+    name: 'incidents',
+    columns: [
+      ['id', 'uuid primary key'],
+      ['event_id', 'text not null'],
+      ['category', 'text not null'],
+      ['severity', 'text not null'],
+      ['location', "text not null default ''"],
+      ['description', "text not null default ''"],
+      ['reported_by', 'text not null'],
+      ['device_id', 'text'],
+      ['assignee', 'text'],
+      ['status', "text not null default 'OPEN'"],
+      ['responding_at', 'timestamptz'],
+      ['resolved_at', 'timestamptz'],
+      ['resolution', "text not null default ''"],
+      CREATED_AT
+    ],
+    realtime: true
+  },
+  {
+    name: 'state_changes',
+    columns: [
+      ['id', 'uuid primary key'],
+      ['event_id', 'text not null'],
+      ['field', 'text not null'],
+      ['value', 'jsonb'],
+      ['prev_value', 'jsonb'],
+      ['new_value', 'jsonb'],
+      ['role', 'text'],
+      ['device_id', 'text'],
+      CREATED_AT
+    ],
+    realtime: false
+  },
+  {
+    name: 'tickets',
+    columns: [
+      ['event_id', 'text not null'],
+      ['code', 'text not null'],
+      ['name', "text not null default ''"],
+      ['tier', "text not null default ''"],
+      ['comp', 'boolean not null default false'],
+      CREATED_AT
+    ],
+    constraints: ['primary key (event_id, code)'],
+    realtime: true
+  },
+  {
+    name: 'ticket_checkins',
+    columns: [
+      ['id', 'uuid primary key'],
+      ['event_id', 'text not null'],
+      ['code', 'text not null'],
+      ['door', "text not null default 'MAIN'"],
+      ['tap_id', 'uuid'],
+      ['device_id', 'text'],
+      ['voided_at', 'timestamptz'],
+      CREATED_AT
+    ],
+    realtime: true
+  },
+  {
+    name: 'inventory_items',
+    columns: [
+      ['id', 'uuid primary key'],
+      ['event_id', 'text not null'],
+      ['station', 'text not null'],
+      ['name', 'text not null'],
+      ['variant', "text not null default ''"],
+      ['start_stock', 'integer not null default 0'],
+      ['low_stock_at', 'integer not null default 0'],
+      ['archived', 'boolean not null default false'],
+      CREATED_AT
+    ],
+    realtime: true
+  },
+  {
+    name: 'inventory_moves',
+    columns: [
+      ['id', 'uuid primary key'],
+      ['event_id', 'text not null'],
+      ['item_id', 'uuid not null references inventory_items(id)'],
+      ['station', 'text not null'],
+      ['kind', 'text not null'],
+      ['delta', 'integer not null'],
+      ['corrects', 'uuid'],
+      ['device_id', 'text'],
+      CREATED_AT
+    ],
+    realtime: true
+  },
+  {
+    name: 'sales',
+    columns: [
+      ['id', 'uuid primary key'],
+      ['event_id', 'text not null'],
+      ['station', 'text not null'],
+      ['method', 'text not null'],
+      ['amount', 'integer not null'],
+      ['device_id', 'text'],
+      ['voided_at', 'timestamptz'],
+      CREATED_AT
+    ],
+    realtime: true
+  },
+  {
+    name: 'station_closeouts',
+    columns: [
+      ['id', 'uuid primary key'],
+      ['event_id', 'text not null'],
+      ['station', 'text not null'],
+      ['opening_float', 'integer not null default 0'],
+      ['counted_cash', 'integer not null default 0'],
+      ['counted_card', 'integer not null default 0'],
+      ['note', "text not null default ''"],
+      ['device_id', 'text'],
+      CREATED_AT
+    ],
+    realtime: true
+  }
+];
+
+const SERVER_TIME_SQL = "create or replace function server_time() returns timestamptz language sql stable as 'select now()';";
+
+// The open anon access the README asks for. Both statements can be re-run.
+const policySql = (table: string) => [
+  `alter table ${table} enable row level security;`,
+  `drop policy if exists "${table} anon access" on ${table};`,
+  `create policy "${table} anon access" on ${table} for all to anon using (true) with check (true);`
+].join('\n');
+
+const grantSql = (table: string) => `grant select, insert, update, delete on ${table} to anon;`;
+
+// Adding a table the publication already has is an error, so check first
+const realtimeSql = (table: string) => [
+  'do $$ begin',
+  `  if not exists (select 1 from pg_publication_tables where pubname = 'supabase_realtime' and tablename = '${table}') then`,
+  `    alter publication supabase_realtime add table ${table};`,
+  '  end if;',
+  'end $$;'
+].join('\n');
+
+const createTableSql = (table: SchemaTable) => [
+  `create table if not exists ${table.name} (`,
+  [...table.columns.map(([column, type]) => `  ${column} ${type}`), ...(table.constraints || []).map(c => `  ${c}`)].join(',\n'),
+  ');',
+  ...(table.extra || []),
+  policySql(table.name),
+  ...(table.realtime ? [realtimeSql(table.name)] : [])
+].join('\n');
+
+type SetupStatus = 'ok' | 'warn' | 'fail';
+
+interface SetupCheck {
+  label: string;
+  status: SetupStatus;
+  detail: string;
+  sql?: string;
+}
+
+// Throwaway rows go under this event so no device's log or counts see them
+const PROBE_EVENT_ID = '__setup_check__';
+const SETUP_TIMEOUT_MS = 8000;
+
+const MISSING_TABLE_CODES = ['42P01', 'PGRST205'];
+const MISSING_COLUMN_CODES = ['42703', 'PGRST204'];
+
+// Fills only what the table requires, pointing references at the probe
+// rows written before it
+const probeRow = (table: SchemaTable, ids: Record<string, unknown>) => {
+  const row: Row = {};
+  table.columns.forEach(([column, type]) => {
+    const ref = type.match(/references (\w+)\(id\)/);
+    if (column === 'event_id') row[column] = PROBE_EVENT_ID;
+    else if (ref) row[column] = ids[ref[1]];
+    else if (/serial|default/.test(type) || !/not null|primary key/.test(type)) return;
+    else if (type.startsWith('uuid')) row[column] = makeId();
+    else if (/^(integer|bigint)/.test(type)) row[column] = 0;
+    else if (type.startsWith('boolean')) row[column] = false;
+    else row[column] = 'setup-check';
+  });
+  return row;
+};
+
+// Tables a probe row points at, besides the event
+const probeParents = (table: SchemaTable) => table.columns
+  .filter(([column]) => column !== 'event_id')
+  .map(([, type]) => type.match(/references (\w+)\(id\)/)?.[1])
+  .filter((name): name is string => !!name);
+
+const waitFor = (test: () => boolean, timeoutMs: number) => new Promise<boolean>(resolve => {
+  const started = Date.now();
+  const timer = setInterval(() => {
+    if (test() || Date.now() - started > timeoutMs) {
+      clearInterval(timer);
+      resolve(test());
+    }
+  }, 200);
+});
+
+// A missing column errors on the first one only, so each is asked for alone
+const checkColumns = async (backend: SyncBackend, table: SchemaTable) => {
+  const { error } = await backend.select(table.name, { columns: table.columns.map(([column]) => column), limit: 1 });
+  if (!error) return { error: null, missing: [] as [string, string][] };
+  if (!MISSING_COLUMN_CODES.includes(error.code || '')) return { error, missing: [] as [string, string][] };
+  const missing: [string, string][] = [];
+  for (const column of table.columns) {
+    const { error: columnError } = await backend.select(table.name, { columns: [column[0]], limit: 1 });
+    if (columnError) missing.push(column);
+  }
+  return { error: null, missing };
+};
+
+// Runs on its own connection: tables and columns, the event's row, the
+// server clock, then writes, deletes and live updates using probe rows
+const runSetupCheck = async (config: BackendConfig & { kind: 'supabase' }, eventId: string): Promise<SetupCheck[]> => {
+  const backend = createBackend(config);
+  try {
+    const { error: reachError, status } = await backend.select('event_state', { limit: 1 });
+    if (reachError && (status === 0 || status === 401)) {
+      return [{ label: 'Connection', status: 'fail', detail: `${reachError.message}. Check the project URL and anon key.` }];
+    }
+
+    const problems: Record<string, string[]> = {};
+    const fixes: Record<string, string[]> = {};
+    const fail = (table: string, problem: string, sql?: string) => {
+      (problems[table] ||= []).push(problem);
+      if (sql) (fixes[table] ||= []).push(sql);
+    };
+
+    // 1. Tables and columns
+    const present: SchemaTable[] = [];
+    for (const table of SCHEMA) {
+      const { error, missing } = await checkColumns(backend, table);
+      if (error && MISSING_TABLE_CODES.includes(error.code || '')) {
+        fail(table.name, 'Table is missing', createTableSql(table));
+      } else if (error?.code === '42501') {
+        fail(table.name, `The anon key has no access: ${error.message}`, grantSql(table.name));
+      } else if (error) {
+        fail(table.name, error.message);
+      } else if (missing.length > 0) {
+        fail(
+          table.name,
+          `Missing column${missing.length === 1 ? '' : 's'} ${missing.map(([column]) => column).join(', ')}`,
+          missing.map(([column, type]) => `alter table ${table.name} add column if not exists ${column} ${type.replace(' primary key', '')};`).join('\n')
+        );
+      } else {
+        present.push(table);
+      }
+    }
+
+    // 2. The event's row. RLS without a read policy returns no rows rather
+    // than an error, which is the blank screen this check exists for.
+    const extraChecks: SetupCheck[] = [];
+    let eventRow: EventSummary | null = null;
+    if (present.some(t => t.name === 'event_state')) {
+      const { data } = await backend.select<EventSummary>('event_state', { filter: { id: eventId } });
+      eventRow = data?.[0] || null;
+      extraChecks.push(eventRow
+        ? { label: `Event "${eventId}"`, status: 'ok', detail: eventRow.name || 'Row found' }
+        : {
+          label: `Event "${eventId}"`,
+          status: 'fail',
+          detail: 'No row. It was never created, or RLS hides it from the anon key.',
+          sql: `insert into event_state (id, name) values ('${eventId.replace(/'/g, "''")}', 'Bout Night') on conflict (id) do nothing;\n${policySql('event_state')}`
+        });
+    }
+
+    // 3. Shared clock for the run of show
+    extraChecks.push(await backend.serverTime() !== null
+      ? { label: 'server_time()', status: 'ok', detail: 'Countdowns use the database clock' }
+      : { label: 'server_time()', status: 'warn', detail: "Missing; countdowns fall back to the web server's clock", sql: SERVER_TIME_SQL });
+
+    // 4. Writes, deletes and live updates
+    const probeTables = present.filter(t => t.name !== 'event_state');
+    const seen = new Set<string>();
+    const channel = { status: null as ChannelStatus | null, detail: '' };
+    backend.joinRoom(`setup-check:${makeId()}`, {
+      presenceKey: PROBE_EVENT_ID,
+      subscriptions: [
+        ...probeTables.filter(t => t.realtime).map(t => ({
+          table: t.name,
+          event: 'INSERT' as const,
+          filter: { event_id: PROBE_EVENT_ID },
+          onChange: () => seen.add(t.name)
+        })),
+        { table: 'event_state', event: 'UPDATE', filter: { id: eventId }, onChange: () => seen.add('event_state') }
+      ],
+      onPresence: () => {},
+      onStatus: (next, detail) => {
+        channel.status = next;
+        channel.detail = detail || '';
+      }
+    });
+    await waitFor(() => channel.status !== null, SETUP_TIMEOUT_MS);
+    const subscribed = channel.status === 'SUBSCRIBED';
+    extraChecks.push(subscribed
+      ? { label: 'Realtime', status: 'ok', detail: 'Channel subscribed' }
+      : {
+        label: 'Realtime',
+        status: 'fail',
+        detail: channel.status
+          ? `Channel ${channel.status}${channel.detail ? `: ${channel.detail}` : ''}`
+          : 'No answer from the realtime server'
+      });
+
+    const ids: Record<string, unknown> = {};
+    const written: string[] = [];
+    // Tables left unprobed because the row they reference couldn't be written
+    const skipped: Record<string, string> = {};
+    for (const table of probeTables) {
+      const parent = probeParents(table).find(name => ids[name] === undefined);
+      if (parent) {
+        skipped[table.name] = parent;
+        continue;
+      }
+      const { data, error } = await backend.insert(table.name, [probeRow(table, ids)]);
+      if (error) {
+        fail(table.name, `Inserts fail: ${error.message}`, error.code === '42501' ? policySql(table.name) : undefined);
+        continue;
+      }
+      ids[table.name] = data?.[0]?.id;
+      written.push(table.name);
+    }
+    if (eventRow) {
+      // Writes the name back unchanged, which still fires a live update
+      const { data, error } = await backend.update('event_state', { name: eventRow.name }, { id: eventId });
+      if (error || !data?.length) {
+        fail('event_state', `Updates fail: ${error?.message || 'no rows changed, so RLS is blocking them'}`, policySql('event_state'));
+      } else {
+        written.push('event_state');
+      }
+    }
+
+    if (subscribed) {
+      const expected = written.filter(name => SCHEMA.find(t => t.name === name)?.realtime);
+      await waitFor(() => expected.every(name => seen.has(name)), SETUP_TIMEOUT_MS);
+      expected.filter(name => !seen.has(name)).forEach(name => {
+        fail(name, 'No live updates: not in the supabase_realtime publication', realtimeSql(name));
+      });
+    }
+
+    // Newest tables first, so a reference is removed before what it points at
+    for (const name of [...written].reverse()) {
+      if (name === 'event_state') continue;
+      const { data, error } = await backend.remove(name, { event_id: PROBE_EVENT_ID });
+      if (error || !data?.length) {
+        fail(name, `Deletes fail, so reset can't clear it: ${error?.message || 'RLS is blocking them'}. A test row is left under event ${PROBE_EVENT_ID}.`, policySql(name));
+      }
+    }
+
+    return [
+      ...SCHEMA.map((table): SetupCheck => problems[table.name]
+        ? { label: table.name, status: 'fail', detail: problems[table.name].join('. '), sql: fixes[table.name]?.join('\n') }
+        : skipped[table.name]
+          ? { label: table.name, status: 'warn', detail: `Columns only; writes not checked until ${skipped[table.name]} passes` }
+          : { label: table.name, status: 'ok', detail: table.realtime ? 'Columns, writes and live updates' : 'Columns and writes' }),
+      ...extraChecks
+    ];
+  } finally {
+    backend.close();
+  }
+};
+
+// --- JOIN LINKS ---
+// A join link carries everything the network modal would ask for, so a
+// volunteer can scan it at doors-open and land connected, on the right event
+// and optionally on a station. It travels as base64url JSON in ?join=.
+interface JoinInvite {
+  backend: BackendConfig;
+  event: string;
+  role?: Station;
+}
+
+const encodeJoinLink = (invite: JoinInvite, base: string) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(invite));
+  const encoded = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${base}?join=${encoded}`;
+};
+
+const decodeJoinLink = (encoded: string): JoinInvite | null => {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const invite = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0))));
+    const { backend, event, role } = invite || {};
+    const validBackend = backend?.kind === 'local'
+      ? typeof backend.relayUrl === 'string'
+      : backend?.kind === 'supabase' && typeof backend.url === 'string' && typeof backend.key === 'string';
+    if (!validBackend || typeof event !== 'string' || !event) return null;
+    if (role !== undefined && typeof role !== 'string') return null;
+    if (role === 'Bout Coordinator' || RESERVED_STATION_CODES.includes(role)) return null;
+    return invite;
+  } catch {
+    return null;
+  }
+};
+
+// Runs before the first render so the app boots straight into the invite's
+// backend and event. The role waits in derby_join_role until the event's
+// stations load and confirm it. The BC role is never handed out by link (it
+// needs the PIN), and a device that currently holds it keeps it.
+const applyJoinLink = () => {
+  const params = new URLSearchParams(window.location.search);
+  const encoded = params.get('join');
+  if (!encoded) return;
+
+  const invite = decodeJoinLink(encoded);
+  if (invite) {
+    localStorage.setItem('sync_backend', invite.backend.kind);
+    if (invite.backend.kind === 'supabase') {
+      localStorage.setItem('supabase_url', invite.backend.url);
+      localStorage.setItem('supabase_key', invite.backend.key);
+    } else {
+      localStorage.setItem('local_relay_url', invite.backend.relayUrl);
+    }
+    localStorage.setItem('derby_event_id', invite.event);
+    if (invite.role && localStorage.getItem('derby_role') !== 'Bout Coordinator') {
+      localStorage.setItem('derby_join_role', invite.role);
+    } else {
+      localStorage.removeItem('derby_join_role');
+    }
+  } else {
+    console.error('Ignoring malformed join link');
+  }
+
+  // Strip the invite so a reload or a shared screenshot doesn't re-apply it
+  params.delete('join');
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+};
+
+// --- MESSAGE HISTORY ---
+// Only the newest messages stay live in memory. Older ones are paged in from
+// the backend as the log is scrolled back, searched or filtered.
+const MESSAGE_WINDOW = 200;
+const MESSAGE_PAGE_SIZE = 50;
+
+// MINE and station chips are exclusive, since both filter on the sender
+interface LogFilter {
+  search: string;
+  stations: Station[];
+  urgent: boolean;
+  mine: boolean;
+}
+
+const EMPTY_LOG_FILTER: LogFilter = { search: '', stations: [], urgent: false, mine: false };
+
+const isLogFiltered = (filter: LogFilter) =>
+  !!filter.search || filter.stations.length > 0 || filter.urgent || filter.mine;
+
+// One query for both sides: sent to the backend for history pages and run
+// through matchesFilter for messages already in memory
+const logFilterQuery = (filter: LogFilter, me: Station): RowFilter => {
+  const senders = filter.mine ? [me] : filter.stations;
+  return {
+    ...(filter.search ? { text: { ilike: `%${filter.search}%` } } : {}),
+    ...(senders.length > 0 ? { station: { in: senders } } : {}),
+    ...(filter.urgent ? { urgent: true } : {})
+  };
+};
+
+// --- OFFLINE OUTBOX ---
+// Every write is stored in IndexedDB first and replayed in order once the
+// database is reachable, so venue WiFi drops don't silently lose data.
+interface OutboxOp {
+  id?: number;
+  table: string;
+  action: 'insert' | 'update';
+  payload: Record<string, any>;
+  match?: RowFilter;
+  status: 'pending' | 'failed';
+  error?: string;
+  queued_at: string;
+  // Held in memory because IndexedDB refused it
+  in_memory?: boolean;
+}
+
+const OUTBOX_DB = 'bcs-outbox';
+const OUTBOX_STORE = 'ops';
+const OUTBOX_SYNC_TAG = 'outbox-flush';
+
+let outboxDb: Promise<IDBDatabase> | null = null;
+
+const openOutbox = () => {
+  if (!outboxDb) {
+    outboxDb = new Promise((resolve, reject) => {
+      const req = indexedDB.open(OUTBOX_DB, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        outboxDb = null;
+        reject(req.error);
+      };
+    });
+  }
+  return outboxDb;
+};
+
+const outboxRequest = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openOutbox();
+  return new Promise((resolve, reject) => {
+    const req = run(db.transaction(OUTBOX_STORE, mode).objectStore(OUTBOX_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+// Ops IndexedDB couldn't store (e.g. private browsing). They retry like the
+// rest but are lost on reload, and negative ids keep them apart from IDB's.
+const memoryOutbox: OutboxOp[] = [];
+let memoryOutboxSeq = 0;
+
+// IDB returns rows in key order, which is the order they were queued
+const getOutboxOps = async () => {
+  let stored: OutboxOp[] = [];
+  try {
+    stored = await outboxRequest<OutboxOp[]>('readonly', store => store.getAll());
+  } catch (err) {
+    if (memoryOutbox.length === 0) throw err;
+  }
+  return [...stored, ...memoryOutbox];
+};
+
+const putOutboxOp = async (op: OutboxOp) => {
+  if (!op.in_memory) {
+    await outboxRequest('readwrite', store => store.put(op));
+    return;
+  }
+  const index = memoryOutbox.findIndex(o => o.id === op.id);
+  if (index >= 0) memoryOutbox[index] = op;
+};
+
+const deleteOutboxOp = async (op: OutboxOp) => {
+  if (!op.in_memory) {
+    await outboxRequest('readwrite', store => store.delete(op.id!));
+    return;
+  }
+  const index = memoryOutbox.findIndex(o => o.id === op.id);
+  if (index >= 0) memoryOutbox.splice(index, 1);
+};
+
+// Ask the service worker to wake us up for a flush once connectivity returns
+const requestBackgroundSync = () => {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.ready
+    // Background Sync isn't in the DOM typings yet
+    .then(reg => (reg as ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } }).sync?.register(OUTBOX_SYNC_TAG))
+    .catch(err => console.warn('Background sync unavailable', err));
+};
+
+const BoutCoordinatorApp = () => {
+  // --- STATE ---
+  const [deviceId] = useState<string>(generateDeviceId());
+  const [operatorName, setOperatorName] = useState(''); 
+  
+  // App Data
+  const [doorTaps, setDoorTaps] = useState<DoorTap[]>([]);
+  const [notifyPrefs, setNotifyPrefs] = useState<NotifyPrefs>(DEFAULT_NOTIFY_PREFS);
+  const [notifyPermission, setNotifyPermission] = useState<string>(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+  const [activeDoor, setActiveDoor] = useState<DoorId>((localStorage.getItem('derby_door') as DoorId) || 'MAIN');
+  const [capacity, setCapacity] = useState<number>(300);
+  const [milestones, setMilestones] = useState<Milestones>({});
+  const [alertLevels, setAlertLevels] = useState<number[]>(DEFAULT_ALERT_LEVELS);
+  const [alertLevelsInput, setAlertLevelsInput] = useState(DEFAULT_ALERT_LEVELS.join(', '));
+  // What the BC is typing into the capacity box; saved on blur or Enter
+  const [capacityDraft, setCapacityDraft] = useState<string | null>(null);
+  const [activeAlert, setActiveAlert] = useState<Message | null>(null);
+  const lastAlertKeyRef = useRef('');
+  // The event_state row as last synced, for the audit trail's previous values
+  const eventStateRef = useRef<Record<string, any>>({});
+  // Realtime handlers outlive renders, so they read the role and settings here
+  const notifyRef = useRef({ role: '', prefs: DEFAULT_NOTIFY_PREFS });
+  const [stations, setStations] = useState<StationConfig[]>(DEFAULT_STATIONS);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [acks, setAcks] = useState<MessageAck[]>([]);
+  // Loaded apart from the paged window so counts and station cards cover
+  // the whole event: every ack request, this role's inbox and each
+  // station's latest message
+  const [ackRequests, setAckRequests] = useState<Message[]>([]);
+  const [inboxBacklog, setInboxBacklog] = useState<Message[]>([]);
+  const [lastMessages, setLastMessages] = useState<Partial<Record<Station, Message>>>({});
+
+  // Ticket State
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [ticketCheckins, setTicketCheckins] = useState<TicketCheckin[]>([]);
+  // Check-ins made here whose writes haven't finished, for repeat scans
+  const pendingCheckinsRef = useRef<TicketCheckin[]>([]);
+  const [ticketCodeInput, setTicketCodeInput] = useState('');
+  const [ticketResult, setTicketResult] = useState<TicketCheckResult | null>(null);
+  const [showTickets, setShowTickets] = useState(false);
+  const [ticketImportNote, setTicketImportNote] = useState('');
+  const [ticketImportError, setTicketImportError] = useState('');
+
+  // Inventory State
+  const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([]);
+  const [inventoryMoves, setInventoryMoves] = useState<InventoryMove[]>([]);
+  const [inventoryStation, setInventoryStation] = useState<Station>('');
+  const [showAddItem, setShowAddItem] = useState(false);
+  const [newItemName, setNewItemName] = useState('');
+  const [newItemVariants, setNewItemVariants] = useState('');
+  const [newItemStock, setNewItemStock] = useState('');
+  const [newItemLowAt, setNewItemLowAt] = useState('');
+  const [restockItemId, setRestockItemId] = useState<string | null>(null);
+  const [restockQty, setRestockQty] = useState('');
+
+  // Sales State
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [closeouts, setCloseouts] = useState<StationCloseout[]>([]);
+  const [saleAmount, setSaleAmount] = useState('');
+  const [showCloseout, setShowCloseout] = useState(false);
+  const [closeoutFloat, setCloseoutFloat] = useState('');
+  const [closeoutCash, setCloseoutCash] = useState('');
+  const [closeoutCard, setCloseoutCard] = useState('');
+  const [closeoutNote, setCloseoutNote] = useState('');
+  const [showSalesReport, setShowSalesReport] = useState(false);
+
+  // Incident State
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [incidentDraft, setIncidentDraft] = useState<IncidentDraft | null>(null);
+  const [showIncidentLog, setShowIncidentLog] = useState(false);
+
+  // Run of Show State (showNow is on the synced server clock)
+  const [runOfShow, setRunOfShow] = useState<RunOfShow>(EMPTY_RUN_OF_SHOW);
+  const [showDraft, setShowDraft] = useState<RunOfShow | null>(null);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [showNow, setShowNow] = useState(Date.now());
+  const [clockSynced, setClockSynced] = useState(false);
+  const clockOffsetRef = useRef(0);
+  const postedCuesRef = useRef(new Set<string>());
+  
+  // Quick Message State (quickFill is a template waiting on its blanks)
+  const [quickMessages, setQuickMessages] = useState<QuickMessage[]>(DEFAULT_QUICK_MESSAGES);
+  const [quickDraft, setQuickDraft] = useState<QuickMessage[] | null>(null);
+  const [quickFill, setQuickFill] = useState<{ template: QuickMessage; values: Record<string, string> } | null>(null);
+
+  // Audit State (null until the view is opened)
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[] | null>(null);
+  const [auditError, setAuditError] = useState('');
+
+  // Outbox State
+  const [outboxOps, setOutboxOps] = useState<OutboxOp[]>([]);
+  const backendRef = useRef<SyncBackend | null>(null);
+  const flushingRef = useRef(false);
+  const flushAgainRef = useRef(false);
+
+  // Input State
+  const [inputText, setInputText] = useState('');
+  const [needsAck, setNeedsAck] = useState(false);
+  const [isUrgent, setIsUrgent] = useState(false);
+  const [selectedStations, setSelectedStations] = useState<Station[]>([]);
+  const [logView, setLogView] = useState<'all' | 'inbox'>('all');
+  const [inboxReadAt, setInboxReadAt] = useState('');
+
+  // History State (older pages for scroll-back, search and filters)
+  const [history, setHistory] = useState<Message[]>([]);
+  const [historyDone, setHistoryDone] = useState(false);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [logFilter, setLogFilter] = useState<LogFilter>(EMPTY_LOG_FILTER);
+  const historyTokenRef = useRef(0);
+  const browsingHistoryRef = useRef(false);
+  const stickToBottomRef = useRef(true);
+  const lastScrollTopRef = useRef(0);
+  const logListRef = useRef<HTMLDivElement>(null);
+
+  // Sync Backend State
+  const [backend, setBackend] = useState<SyncBackend | null>(null);
+  const [room, setRoom] = useState<SyncRoom | null>(null);
+  const [backendKind, setBackendKind] = useState<BackendKind>((localStorage.getItem('sync_backend') as BackendKind) || 'supabase');
+  const [configUrl, setConfigUrl] = useState('');
+  const [configKey, setConfigKey] = useState('');
+  const [relayUrl, setRelayUrl] = useState(localStorage.getItem('local_relay_url') || '');
+  const [isConnected, setIsConnected] = useState(false);
+  const [showNetworkModal, setShowNetworkModal] = useState<boolean>(false);
+  const [connectionError, setConnectionError] = useState('');
+  // Problems after connecting: a failed load, or live updates dropping out
+  const [loadErrors, setLoadErrors] = useState<Record<string, string>>({});
+  const [realtimeIssue, setRealtimeIssue] = useState('');
+  const [setupChecks, setSetupChecks] = useState<SetupCheck[] | null>(null);
+  const [setupRunning, setSetupRunning] = useState(false);
+
+  // Event State
+  const [eventId, setEventId] = useState(localStorage.getItem('derby_event_id') || DEFAULT_EVENT_ID);
+  const [events, setEvents] = useState<EventSummary[]>([]);
+  const [newEventName, setNewEventName] = useState('');
+  const [eventError, setEventError] = useState('');
+  const [exportError, setExportError] = useState('');
+  
+  // WiFi State
+  const [wifiSSID, setWifiSSID] = useState('GRDFOH');
+  const [wifiPass, setWifiPass] = useState('gorgerollerderby23');
+  const [showWifiQr, setShowWifiQr] = useState(false);
+  const [qrDataUrl, setQrDataUrl] = useState('');
+
+  // Join QR State
+  const [accessView, setAccessView] = useState<'wifi' | 'join'>('wifi');
+  const [joinRole, setJoinRole] = useState<Station>('');
+  const [joinQrDataUrl, setJoinQrDataUrl] = useState('');
+  
+  // Presence State
+  const [onlinePeers, setOnlinePeers] = useState<UserPresence[]>([]);
+  const [volunteerName, setVolunteerName] = useState(localStorage.getItem('derby_volunteer_name') || '');
+  const [showRoster, setShowRoster] = useState(false);
+  const [presenceNow, setPresenceNow] = useState(Date.now());
+  const onlineAtRef = useRef(new Date().toISOString());
+
+  // Coordinator Role State
+  const [coordinatorDeviceId, setCoordinatorDeviceId] = useState<string | null>(localStorage.getItem(`derby_coordinator_${eventId}`) || null);
+  const [coordinatorPinHash, setCoordinatorPinHash] = useState<string | null>(null);
+  const prevCoordinatorRef = useRef<string | null>(null);
+  const [showPinModal, setShowPinModal] = useState(false);
+  const [pinInput, setPinInput] = useState('');
+  const [pinError, setPinError] = useState('');
+  const [newPinInput, setNewPinInput] = useState('');
+  const [handoffTarget, setHandoffTarget] = useState('');
+
+  // Station Config State (the draft is only set while the BC edits)
+  const [stationDraft, setStationDraft] = useState<StationConfig[] | null>(null);
+  const [newStationName, setNewStationName] = useState('');
+
+  // Reset State
+  const [showResetView, setShowResetView] = useState(false);
+  const [resetInputText, setResetInputText] = useState('');
+  const [resetError, setResetError] = useState('');
+  const [archives, setArchives] = useState<EventArchive[]>([]);
+  const [expandedArchiveId, setExpandedArchiveId] = useState<string | null>(null);
+  const [clockNow, setClockNow] = useState(Date.now());
+
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  // Auto-scroll messages, unless the reader has scrolled back through history
+  useEffect(() => {
+    if (stickToBottomRef.current) messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages, outboxOps.length, history]);
+
+  // The live window only trims while nobody is reading older pages
+  useEffect(() => {
+    browsingHistoryRef.current = history.length > 0;
+  }, [history]);
+
+  // Debounce the search box into the filter
+  useEffect(() => {
+    const timer = setTimeout(() => setLogFilter(prev => ({ ...prev, search: searchInput.trim() })), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // A new search or filter starts history over from its newest matches
+  useEffect(() => {
+    resetHistory();
+    stickToBottomRef.current = true;
+    if (isLogFiltered(logFilter)) loadHistoryPage(null);
+  }, [logFilter]);
+
+  // Load Saved Role on Mount
+  useEffect(() => {
+    const savedRole = localStorage.getItem('derby_role');
+    if (savedRole) {
+      setOperatorName(savedRole);
+    }
+  }, []);
+
+  // Persist Role Logic & Update Presence
+  useEffect(() => {
+    if (operatorName) {
+      localStorage.setItem('derby_role', operatorName);
+    } else {
+      localStorage.removeItem('derby_role');
+    }
+
+    // Update Presence if connected
+    if (room) {
+      room.track(presencePayload(operatorName)).catch(err => console.error("Presence track error", err));
+    }
+  }, [operatorName, room, deviceId, volunteerName]);
+
+  useEffect(() => {
+    const role = operatorName === 'Bout Coordinator' ? 'COORDINATOR' : operatorName;
+    const prefs = loadNotifyPrefs(role);
+    setNotifyPrefs(prefs);
+    notifyRef.current = { role, prefs };
+  }, [operatorName]);
+
+  useEffect(() => {
+    const role = operatorName === 'Bout Coordinator' ? 'COORDINATOR' : operatorName;
+    if (!backend || !role) {
+      setInboxBacklog([]);
+      return;
+    }
+    loadInbox(backend, eventId, role);
+  }, [backend, eventId, operatorName]);
+
+  useEffect(() => {
+    localStorage.setItem('derby_volunteer_name', volunteerName);
+  }, [volunteerName]);
+
+  // Heartbeat: re-track so the roster can spot stale devices, and move the
+  // roster clock along with it
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setPresenceNow(Date.now());
+      room?.track(presencePayload(operatorName)).catch(err => console.error("Presence heartbeat error", err));
+    }, ROSTER_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [operatorName, room, volunteerName]);
+
+  // Measure the offset to the backend's clock on connect and every few
+  // minutes, falling back to the app server's Date header
+  useEffect(() => {
+    if (!backend) return;
+    const syncClock = async () => {
+      const sent = Date.now();
+      const server = (await backend.serverTime()) ?? (await fetchOriginTime());
+      if (server === null) return;
+      clockOffsetRef.current = server - (sent + Date.now()) / 2;
+      setClockSynced(true);
+      setShowNow(serverNow());
+    };
+    syncClock();
+    const timer = setInterval(syncClock, CLOCK_SYNC_MS);
+    return () => clearInterval(timer);
+  }, [backend]);
+
+  // Tick the header countdown while there is a schedule
+  useEffect(() => {
+    if (runOfShow.segments.length === 0) return;
+    const timer = setInterval(() => setShowNow(serverNow()), 1000);
+    return () => clearInterval(timer);
+  }, [runOfShow.segments.length]);
+
+  // Post cues as they come due. Only one device posts: the BC while it is
+  // online, otherwise the live device with the lowest id. If two devices
+  // disagree, the unique cue_id keeps one post: Supabase refuses the second
+  // and local replicas settle on the earlier one.
+  useEffect(() => {
+    if (!isConnected || !isCuePoster) return;
+    cueSchedule
+      .filter(({ at }) => at <= showNow && showNow - at < CUE_GRACE_MS)
+      .forEach(entry => {
+        const cueKey = `${entry.cue.id}@${entry.at}`;
+        if (postedCuesRef.current.has(cueKey) || messages.some(m => m.cue_id === cueKey)) return;
+        postedCuesRef.current.add(cueKey);
+        postCue(entry, cueKey);
+      });
+  }, [showNow]);
+
+  // Tick the undo countdown while a reset can still be undone
+  const undoableArchive = archives.find(a => canUndoArchive(a, clockNow));
+  useEffect(() => {
+    if (!undoableArchive) return;
+    const timer = setInterval(() => setClockNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [undoableArchive?.id]);
+
+  // Inbox read marker, per event and role
+  useEffect(() => {
+    setInboxReadAt(localStorage.getItem(`derby_inbox_read_${eventId}_${operatorName}`) || '');
+    setLogView('all');
+  }, [eventId, operatorName]);
+
+  // Viewing the inbox marks everything in it as read
+  useEffect(() => {
+    if (logView !== 'inbox') return;
+    const now = new Date().toISOString();
+    setInboxReadAt(now);
+    localStorage.setItem(`derby_inbox_read_${eventId}_${operatorName}`, now);
+  }, [logView, messages.length]);
+
+  // Cache the holder so a reload with a dead uplink keeps the BC controls
+  useEffect(() => {
+    localStorage.setItem(`derby_coordinator_${eventId}`, coordinatorDeviceId || '');
+  }, [coordinatorDeviceId]);
+
+  // Follow the event's coordinator assignment: a handoff to this device
+  // promotes it, a takeover by another device demotes it
+  useEffect(() => {
+    const previous = prevCoordinatorRef.current;
+    prevCoordinatorRef.current = coordinatorDeviceId;
+    if (!isConnected) return;
+
+    if (operatorName === 'Bout Coordinator' && coordinatorDeviceId !== deviceId) {
+      setOperatorName('');
+      setSelectedStations([]);
+      if (coordinatorDeviceId && previous === deviceId) {
+        window.alert('Another device has taken over as Bout Coordinator.');
+      }
+    } else if (coordinatorDeviceId === deviceId && previous && previous !== deviceId && operatorName !== 'Bout Coordinator') {
+      setOperatorName('Bout Coordinator');
+      setSelectedStations([]);
+    }
+  }, [coordinatorDeviceId, isConnected]);
+
+  // Remember which door this device is counting
+  useEffect(() => {
+    localStorage.setItem('derby_door', activeDoor);
+  }, [activeDoor]);
+
+  // Load credentials from Env or local storage on mount
+  useEffect(() => {
+    // 1. Defaults provided by user
+    const DEFAULT_URL = 'https://rcfjdnzppdbrjjugzzza.supabase.co';
+    const DEFAULT_KEY = 'sb_publishable_9VrqHhPhwkRDSS0YdVEUGg_m_lh9clC';
+
+    // 2. Load from LocalStorage or fall back to defaults
+    // We REMOVED process.env checks here to avoid crashing on mobile browsers
+    const savedUrl = localStorage.getItem('supabase_url');
+    const savedKey = localStorage.getItem('supabase_key');
+
+    if (backendKind === 'local') {
+      setConfigUrl(savedUrl || DEFAULT_URL);
+      setConfigKey(savedKey || DEFAULT_KEY);
+      connectBackend({ kind: 'local', relayUrl });
+    } else if (savedUrl && savedKey) {
+      setConfigUrl(savedUrl);
+      setConfigKey(savedKey);
+      connectBackend({ kind: 'supabase', url: savedUrl, key: savedKey });
+    } else {
+      // Use defaults if no local storage override exists
+      setConfigUrl(DEFAULT_URL);
+      setConfigKey(DEFAULT_KEY);
+      connectBackend({ kind: 'supabase', url: DEFAULT_URL, key: DEFAULT_KEY });
+    }
+  }, []);
+
+  // Generate QR Code when WiFi details change or modal opens
+  useEffect(() => {
+    if (showWifiQr && wifiSSID) {
+      // WPA Format: WIFI:T:WPA;S:mynetwork;P:mypass;;
+      const qrString = `WIFI:T:WPA;S:${wifiSSID};P:${wifiPass};;`;
+      QRCode.toDataURL(qrString, { width: 300, margin: 2, color: { dark: '#000000', light: '#ffffff' } })
+        .then(url => {
+          setQrDataUrl(url);
+        })
+        .catch(err => {
+          console.error(err);
+        });
+    }
+  }, [showWifiQr, wifiSSID, wifiPass]);
+
+  // The join QR follows the connection settings, the event and the chosen station
+  useEffect(() => {
+    if (!showWifiQr || accessView !== 'join') return;
+    QRCode.toDataURL(buildJoinLink(), { width: 300, margin: 2, color: { dark: '#000000', light: '#ffffff' } })
+      .then(url => setJoinQrDataUrl(url))
+      .catch(err => console.error(err));
+  }, [showWifiQr, accessView, joinRole, eventId, backendKind, relayUrl, configUrl, configKey]);
+
+  // Replay the outbox on reconnect, on service worker wake-ups and on a slow
+  // timer (venue WiFi often stays "online" while the uplink is dead)
+  useEffect(() => {
+    refreshOutbox();
+
+    const handleOnline = () => flushOutbox();
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'FLUSH_OUTBOX') flushOutbox();
+    };
+    const retryTimer = setInterval(flushOutbox, 15000);
+
+    window.addEventListener('online', handleOnline);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    return () => {
+      clearInterval(retryTimer);
+      window.removeEventListener('online', handleOnline);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, []);
+
+  // --- OUTBOX LOGIC ---
+
+  const refreshOutbox = async () => {
+    try {
+      setOutboxOps(await getOutboxOps());
+    } catch (err) {
+      console.error('Outbox read error', err);
+    }
+  };
+
+  const runOutboxOp = (target: SyncBackend, op: OutboxOp) => {
+    if (op.action === 'insert') {
+      return target.insert(op.table, [op.payload]);
+    }
+    return target.update(op.table, op.payload, op.match || {});
+  };
+
+  const flushOutbox = async () => {
+    const target = backendRef.current;
+    if (!target) return;
+    if (flushingRef.current) {
+      flushAgainRef.current = true;
+      return;
+    }
+
+    flushingRef.current = true;
+    try {
+      const ops = (await getOutboxOps()).filter(op => op.status === 'pending');
+      for (const op of ops) {
+        const result = await runOutboxOp(target, op);
+        // A duplicate key means an earlier attempt landed before the
+        // connection dropped, so the op is already applied
+        if (result.error?.code === '23505') {
+          await deleteOutboxOp(op);
+          continue;
+        }
+        // Status 0 means the request never reached the server: stop here so
+        // the remaining ops are replayed in their original order later
+        if (result.error && result.status === 0) break;
+        // An update RLS blocks has no error, just no rows, so it stays as failed
+        let failure = '';
+        try {
+          assertWrite(`${op.action === 'insert' ? 'Insert into' : 'Update of'} ${op.table}`, result);
+        } catch (err) {
+          failure = errorMessage(err);
+        }
+        if (failure) await putOutboxOp({ ...op, status: 'failed', error: failure });
+        else await deleteOutboxOp(op);
+      }
+    } catch (err) {
+      console.error('Outbox flush error', err);
+    } finally {
+      flushingRef.current = false;
+      await refreshOutbox();
+      if (flushAgainRef.current) {
+        flushAgainRef.current = false;
+        flushOutbox();
+      }
+    }
+  };
+
+  const queueWrite = async (op: Pick<OutboxOp, 'table' | 'action' | 'payload' | 'match'>) => {
+    const queued: OutboxOp = { ...op, status: 'pending', queued_at: new Date().toISOString() };
+    try {
+      await outboxRequest('readwrite', store => store.add(queued));
+      requestBackgroundSync();
+    } catch (err) {
+      console.error('Outbox write error, keeping the op in memory', err);
+      memoryOutbox.push({ ...queued, id: -(++memoryOutboxSeq), in_memory: true });
+    }
+    await refreshOutbox();
+    await flushOutbox();
+  };
+
+  const handleRetryFailed = async () => {
+    const failed = outboxOps.filter(op => op.status === 'failed');
+    for (const op of failed) {
+      await putOutboxOp({ ...op, status: 'pending', error: undefined });
+    }
+    await refreshOutbox();
+    await flushOutbox();
+  };
+
+  const handleDiscardFailed = async () => {
+    const failed = outboxOps.filter(op => op.status === 'failed');
+    for (const op of failed) {
+      await deleteOutboxOp(op);
+    }
+    await refreshOutbox();
+  };
+
+  // --- SYNC LOGIC ---
+
+  const serverNow = () => Date.now() + clockOffsetRef.current;
+
+  // online_at stays fixed for the session; heartbeat_at moves on every track
+  const presencePayload = (role: string): UserPresence => ({
+    device_id: deviceId,
+    role,
+    name: volunteerName.trim(),
+    online_at: onlineAtRef.current,
+    heartbeat_at: new Date().toISOString()
+  });
+
+  const currentBackendConfig = (): BackendConfig =>
+    backendKind === 'local'
+      ? { kind: 'local', relayUrl: relayUrl.trim() }
+      : { kind: 'supabase', url: configUrl, key: configKey };
+
+  const buildJoinLink = () => encodeJoinLink(
+    { backend: currentBackendConfig(), event: eventId, ...(joinRole ? { role: joinRole } : {}) },
+    `${window.location.origin}${window.location.pathname}`
+  );
+
+  const connectBackend = async (config: BackendConfig, targetEventId = eventId) => {
+    if (config.kind === 'supabase' && (!config.url || !config.key)) {
+      setConnectionError('Please enter both URL and API Key');
+      return;
+    }
+
+    const setupHint = config.kind === 'supabase' ? ' Run SETUP CHECK below to see what is missing.' : '';
+    try {
+      const next = createBackend(config);
+      setLoadErrors({});
+      
+      // 1. Initial Fetch. A Supabase project without the event's row (or with
+      // RLS hiding it) would otherwise connect to a blank screen.
+      const { data: stateRows, error: stateError } = await next.select<EventState>('event_state', { filter: { id: targetEventId } });
+      const stateData = stateRows?.[0];
+      if (stateError || (!stateData && config.kind === 'supabase')) {
+        next.close();
+        setConnectionError(stateError
+          ? `Couldn't read event_state: ${stateError.message}.${setupHint}`
+          : `Event "${targetEventId}" not found in event_state, or hidden by RLS.${setupHint}`);
+        return;
+      }
+      
+      eventStateRef.current = stateData || {};
+      if (stateData) {
+        setCapacity(stateData.capacity);
+        setMilestones(stateData.milestones || {});
+        if (stateData.alert_levels) {
+          setAlertLevels(stateData.alert_levels);
+          setAlertLevelsInput(stateData.alert_levels.join(', '));
+        }
+        if (stateData.wifi_ssid) setWifiSSID(stateData.wifi_ssid);
+        if (stateData.wifi_pass) setWifiPass(stateData.wifi_pass);
+        setCoordinatorDeviceId(stateData.coordinator_device_id || null);
+        setCoordinatorPinHash(stateData.coordinator_pin_hash || null);
+        setStations(stateData.stations?.length ? sortStations(stateData.stations) : DEFAULT_STATIONS);
+        setRunOfShow(stateData.run_of_show || EMPTY_RUN_OF_SHOW);
+        setQuickMessages(stateData.quick_messages ?? DEFAULT_QUICK_MESSAGES);
+      }
+
+      await loadEvents(next);
+
+      // Rebuild the headcount from the tap ledger
+      await loadDoorTaps(next, targetEventId);
+
+      // Fetch recent messages
+      await loadMessages(next, targetEventId);
+      await loadAcks(next, targetEventId);
+      await loadAckRequests(next, targetEventId);
+      const stationCodes = (stateData?.stations?.length ? stateData.stations as StationConfig[] : DEFAULT_STATIONS).map(st => st.code);
+      await loadLastMessages(next, targetEventId, stationCodes);
+
+      // A join link's role only sticks if this event actually has that station
+      const joinRole = localStorage.getItem('derby_join_role');
+      if (joinRole) {
+        localStorage.removeItem('derby_join_role');
+        if (stationCodes.includes(joinRole)) {
+          setOperatorName(prev => prev === 'Bout Coordinator' ? prev : joinRole);
+        } else {
+          console.error(`Ignoring join link role ${joinRole}: not a station on this event`);
+        }
+      }
+      await loadTickets(next, targetEventId);
+      await loadInventory(next, targetEventId);
+      await loadSales(next, targetEventId);
+      await loadIncidents(next, targetEventId);
+      await loadArchives(next, targetEventId);
+
+      // 2. Realtime Subscription (Data + Presence)
+      const eventFilter = { event_id: targetEventId };
+
+      // Realtime filters don't apply to deletes, and Supabase sends only the
+      // key of a deleted row unless the table has replica identity full, so a
+      // row without event_id still counts as ours
+      const reloadTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+      const reloadOnDelete = (key: string, reload: () => void) => (row: { event_id?: string }) => {
+        if (row?.event_id && row.event_id !== targetEventId) return;
+        clearTimeout(reloadTimers[key]);
+        reloadTimers[key] = setTimeout(() => {
+          if (backendRef.current === next) reload();
+        }, DELETE_RELOAD_MS);
+      };
+
+      const newRoom = next.joinRoom(`room:${targetEventId}`, {
+        presenceKey: deviceId,
+        subscriptions: [
+          {
+            table: 'event_state',
+            event: 'UPDATE',
+            filter: { id: targetEventId },
+            onChange: (newState: EventState) => {
+              eventStateRef.current = { ...eventStateRef.current, ...newState };
+              setCapacity(newState.capacity);
+              if (newState.milestones !== undefined) setMilestones(newState.milestones || {});
+              if (newState.alert_levels) {
+                setAlertLevels(newState.alert_levels);
+                setAlertLevelsInput(newState.alert_levels.join(', '));
+              }
+              if (newState.wifi_ssid !== undefined) setWifiSSID(newState.wifi_ssid);
+              if (newState.wifi_pass !== undefined) setWifiPass(newState.wifi_pass);
+              if (newState.coordinator_device_id !== undefined) setCoordinatorDeviceId(newState.coordinator_device_id);
+              if (newState.coordinator_pin_hash !== undefined) setCoordinatorPinHash(newState.coordinator_pin_hash);
+              if (newState.stations !== undefined) setStations(newState.stations?.length ? sortStations(newState.stations) : DEFAULT_STATIONS);
+              if (newState.run_of_show !== undefined) setRunOfShow(newState.run_of_show || EMPTY_RUN_OF_SHOW);
+              if (newState.quick_messages !== undefined) setQuickMessages(newState.quick_messages ?? DEFAULT_QUICK_MESSAGES);
+            }
+          },
+          { table: 'event_state', event: 'INSERT', onChange: () => loadEvents(next) },
+          {
+            table: 'door_taps',
+            event: 'INSERT',
+            filter: eventFilter,
+            onChange: (tap: DoorTap) => {
+              // Our own taps are already applied locally
+              setDoorTaps(prev => prev.some(t => t.id === tap.id) ? prev : [...prev, tap]);
+            }
+          },
+          { table: 'door_taps', event: 'DELETE', onChange: reloadOnDelete('door_taps', () => loadDoorTaps(next, targetEventId)) },
+          {
+            table: 'messages',
+            event: 'INSERT',
+            filter: eventFilter,
+            onChange: (newMsg: Message) => {
+              if (newMsg.kind === 'capacity_alert') raiseCapacityAlert(newMsg);
+              else notifyIncoming(newMsg);
+              // Messages restored by an undo arrive with their original, older ids
+              setMessages(prev => {
+                if (prev.some(m => m.id === newMsg.id)) return prev;
+                const merged = [...prev, newMsg];
+                if (prev.length > 0 && newMsg.id < prev[prev.length - 1].id) merged.sort((a, b) => a.id - b.id);
+                return browsingHistoryRef.current ? merged : merged.slice(-MESSAGE_WINDOW);
+              });
+              if (newMsg.needs_ack) setAckRequests(prev => prev.some(m => m.id === newMsg.id) ? prev : [...prev, newMsg]);
+              if (isAddressedTo(newMsg, notifyRef.current.role)) {
+                setInboxBacklog(prev => prev.some(m => m.id === newMsg.id) ? prev : [...prev, newMsg]);
+              }
+              setLastMessages(prev => (prev[newMsg.station]?.id ?? 0) > newMsg.id ? prev : { ...prev, [newMsg.station]: newMsg });
+            }
+          },
+          {
+            table: 'message_acks',
+            event: 'INSERT',
+            filter: eventFilter,
+            onChange: (ack: MessageAck) => {
+              setAcks(prev => prev.some(a => a.message_id === ack.message_id && a.station === ack.station) ? prev : [...prev, ack]);
+            }
+          },
+          {
+            table: 'messages',
+            event: 'DELETE',
+            onChange: reloadOnDelete('messages', () => {
+              loadMessages(next, targetEventId);
+              loadAckRequests(next, targetEventId);
+              loadLastMessages(next, targetEventId, stationCodes);
+              if (notifyRef.current.role) loadInbox(next, targetEventId, notifyRef.current.role);
+            })
+          },
+          {
+            table: 'tickets',
+            event: 'INSERT',
+            filter: eventFilter,
+            onChange: (ticket: Ticket) => {
+              setTickets(prev => prev.some(t => t.code === ticket.code) ? prev : [...prev, ticket]);
+            }
+          },
+          {
+            table: 'ticket_checkins',
+            event: 'INSERT',
+            filter: eventFilter,
+            onChange: (checkin: TicketCheckin) => {
+              setTicketCheckins(prev => prev.some(c => c.id === checkin.id) ? prev : [...prev, checkin]);
+            }
+          },
+          {
+            table: 'ticket_checkins',
+            event: 'UPDATE',
+            filter: eventFilter,
+            onChange: (checkin: TicketCheckin) => {
+              setTicketCheckins(prev => prev.map(c => c.id === checkin.id ? { ...c, ...checkin } : c));
+            }
+          },
+          { table: 'ticket_checkins', event: 'DELETE', onChange: reloadOnDelete('ticket_checkins', () => loadTickets(next, targetEventId)) },
+          {
+            table: 'inventory_items',
+            event: '*',
+            filter: eventFilter,
+            onChange: (item: InventoryItem) => {
+              setInventoryItems(prev => prev.some(i => i.id === item.id)
+                ? prev.map(i => i.id === item.id ? { ...i, ...item } : i)
+                : [...prev, item]);
+            }
+          },
+          {
+            table: 'inventory_moves',
+            event: 'INSERT',
+            filter: eventFilter,
+            onChange: (move: InventoryMove) => {
+              setInventoryMoves(prev => prev.some(m => m.id === move.id) ? prev : [...prev, move]);
+            }
+          },
+          { table: 'inventory_moves', event: 'DELETE', onChange: reloadOnDelete('inventory_moves', () => loadInventory(next, targetEventId)) },
+          {
+            table: 'sales',
+            event: '*',
+            filter: eventFilter,
+            onChange: (sale: Sale) => {
+              setSales(prev => prev.some(s => s.id === sale.id)
+                ? prev.map(s => s.id === sale.id ? { ...s, ...sale } : s)
+                : [...prev, sale]);
+            }
+          },
+          {
+            table: 'station_closeouts',
+            event: 'INSERT',
+            filter: eventFilter,
+            onChange: (closeout: StationCloseout) => {
+              setCloseouts(prev => prev.some(c => c.id === closeout.id) ? prev : [...prev, closeout]);
+            }
+          },
+          { table: 'station_closeouts', event: 'DELETE', onChange: reloadOnDelete('station_closeouts', () => loadSales(next, targetEventId)) },
+          {
+            table: 'incidents',
+            event: '*',
+            filter: eventFilter,
+            onChange: (incident: Incident) => {
+              setIncidents(prev => prev.some(i => i.id === incident.id)
+                ? prev.map(i => i.id === incident.id ? { ...i, ...incident } : i)
+                : [...prev, incident]);
+            }
+          },
+          { table: 'incidents', event: 'DELETE', onChange: reloadOnDelete('incidents', () => loadIncidents(next, targetEventId)) },
+          { table: 'event_archives', event: '*', filter: eventFilter, onChange: () => loadArchives(next, targetEventId) }
+        ],
+        onPresence: (peers) => setOnlinePeers(peers as UserPresence[]),
+        onStatus: async (status, detail) => {
+          // Supabase keeps retrying a failed channel; say so instead of going quiet
+          if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            const issue = `Live updates ${status === 'TIMED_OUT' ? 'timed out' : 'failed'}${detail ? `: ${detail}` : ''}.${setupHint}`;
+            setRealtimeIssue(issue);
+            setConnectionError(issue);
+          }
+          if (status === 'SUBSCRIBED') {
+            setRealtimeIssue('');
+            setIsConnected(true);
+            setBackend(next);
+            backendRef.current = next;
+            setRoom(newRoom);
+            setShowNetworkModal(false);
+            setConnectionError('');
+            
+            // Track initial presence
+            const currentRole = localStorage.getItem('derby_role') || '';
+            await newRoom.track(presencePayload(currentRole));
+
+            // Persist connection info
+            localStorage.setItem('sync_backend', config.kind);
+            if (config.kind === 'supabase') {
+              localStorage.setItem('supabase_url', config.url);
+              localStorage.setItem('supabase_key', config.key);
+            } else {
+              localStorage.setItem('local_relay_url', config.relayUrl);
+            }
+
+            // Replay anything queued while we were offline
+            flushOutbox();
+          }
+        }
+      });
+
+    } catch (err) {
+      console.error(err);
+      setConnectionError(`${errorMessage(err) || 'Failed to connect. Check credentials.'}${setupHint}`);
+      setIsConnected(false);
+    }
+  };
+
+  const handleSetupCheck = async () => {
+    const config = currentBackendConfig();
+    if (config.kind !== 'supabase' || !config.url || !config.key) {
+      setConnectionError('Please enter both URL and API Key');
+      return;
+    }
+    setSetupRunning(true);
+    setSetupChecks(null);
+    try {
+      setSetupChecks(await runSetupCheck(config, eventId));
+    } catch (err) {
+      setSetupChecks([{ label: 'Setup check', status: 'fail', detail: errorMessage(err) }]);
+    } finally {
+      setSetupRunning(false);
+    }
+  };
+
+  // Failed loads stay listed in the network modal until the next connect
+  const reportLoadError = (what: string, err: unknown) => {
+    console.error(`${what} fetch error`, err);
+    setLoadErrors(prev => ({ ...prev, [what]: errorMessage(err) }));
+  };
+
+  const loadEvents = async (source: SyncBackend) => {
+    const { data, error } = await source.select<EventSummary>('event_state', {
+      order: [{ column: 'created_at', ascending: true }]
+    });
+    if (error) reportLoadError('Events', error);
+    if (data) setEvents(data.map(({ id, name, archived, created_at }) => ({ id, name, archived, created_at })));
+  };
+
+  const loadMessages = async (source: SyncBackend, targetEventId: string) => {
+    const { data: msgData, error } = await source.select<Message>('messages', {
+      filter: { event_id: targetEventId },
+      order: [{ column: 'created_at', ascending: false }],
+      limit: MESSAGE_PAGE_SIZE
+    });
+    if (error) reportLoadError('Messages', error);
+
+    if (msgData) {
+      setMessages(msgData.reverse()); 
+      resetHistory();
+      setHistoryDone(msgData.length < MESSAGE_PAGE_SIZE);
+    }
+  };
+
+  // --- MESSAGE HISTORY ---
+
+  const resetHistory = () => {
+    historyTokenRef.current++;
+    setHistory([]);
+    setHistoryDone(false);
+    setHistoryLoading(false);
+  };
+
+  // Fetches the page of matching messages older than `before` (or the newest
+  // page when null). Results for a filter that has since changed are dropped.
+  const loadHistoryPage = async (before: string | null) => {
+    const source = backendRef.current;
+    if (!source) return;
+    const token = historyTokenRef.current;
+    const list = logListRef.current;
+    const prevHeight = list?.scrollHeight || 0;
+
+    setHistoryLoading(true);
+    const { data, error } = await source.select<Message>('messages', {
+      filter: {
+        event_id: eventId,
+        ...logFilterQuery(logFilter, myStation),
+        ...(before ? { created_at: { lt: before } } : {})
+      },
+      order: [{ column: 'created_at', ascending: false }],
+      limit: MESSAGE_PAGE_SIZE
+    });
+    if (token !== historyTokenRef.current) return;
+    setHistoryLoading(false);
+
+    if (error || !data) {
+      console.error('History fetch error', error);
+      return;
+    }
+    setHistoryDone(data.length < MESSAGE_PAGE_SIZE);
+    setHistory(prev => {
+      const known = new Set(prev.map(m => m.id));
+      return [...data.reverse().filter(m => !known.has(m.id)), ...prev];
+    });
+
+    // Keep the reader's place while older rows are added above
+    if (before && list) {
+      requestAnimationFrame(() => {
+        list.scrollTop += list.scrollHeight - prevHeight;
+      });
+    }
+  };
+
+  const loadOlderMessages = () => {
+    if (historyLoading || historyDone) return;
+    const loaded = history.length > 0 ? history : (isLogFiltered(logFilter) ? [] : messages);
+    loadHistoryPage(loaded.length > 0 ? loaded[0].created_at : null);
+  };
+
+  const handleLogScroll = () => {
+    const list = logListRef.current;
+    if (!list) return;
+    stickToBottomRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < 80;
+    // Only the reader scrolling up pages in history, not the auto-scroll
+    const scrolledUp = list.scrollTop < lastScrollTopRef.current;
+    lastScrollTopRef.current = list.scrollTop;
+    if (scrolledUp && list.scrollTop < 40) loadOlderMessages();
+  };
+
+  // Back to the live log
+  const handleClearLogFilter = () => {
+    setSearchInput('');
+    setLogFilter(EMPTY_LOG_FILTER);
+  };
+
+  const toggleLogStation = (station: Station) => {
+    setLogFilter(prev => ({
+      ...prev,
+      mine: false,
+      stations: prev.stations.includes(station) ? prev.stations.filter(s => s !== station) : [...prev.stations, station]
+    }));
+  };
+
+  const loadAcks = async (source: SyncBackend, targetEventId: string) => {
+    try {
+      setAcks(await fetchAllRows<MessageAck>(source, 'message_acks', {
+        filter: { event_id: targetEventId },
+        order: [{ column: 'created_at', ascending: true }]
+      }));
+    } catch (err) {
+      reportLoadError('Acks', err);
+    }
+  };
+
+  const loadAckRequests = async (source: SyncBackend, targetEventId: string) => {
+    try {
+      setAckRequests(await fetchAllRows<Message>(source, 'messages', {
+        filter: { event_id: targetEventId, needs_ack: true },
+        order: [{ column: 'id', ascending: true }]
+      }));
+    } catch (err) {
+      reportLoadError('Ack requests', err);
+    }
+  };
+
+  const loadInbox = async (source: SyncBackend, targetEventId: string, role: Station) => {
+    try {
+      setInboxBacklog(await fetchAllRows<Message>(source, 'messages', {
+        filter: { event_id: targetEventId, recipients: { contains: [role] } },
+        order: [{ column: 'id', ascending: true }]
+      }));
+    } catch (err) {
+      reportLoadError('Inbox', err);
+    }
+  };
+
+  // One query per station; events have a handful of stations
+  const loadLastMessages = async (source: SyncBackend, targetEventId: string, stationCodes: Station[]) => {
+    const latest: Partial<Record<Station, Message>> = {};
+    await Promise.all(stationCodes.map(async code => {
+      const { data, error } = await source.select<Message>('messages', {
+        filter: { event_id: targetEventId, station: code },
+        order: [{ column: 'id', ascending: false }],
+        limit: 1
+      });
+      if (error) reportLoadError('Station messages', error);
+      if (data?.[0]) latest[code] = data[0];
+    }));
+    setLastMessages(latest);
+  };
+
+  const loadTickets = async (source: SyncBackend, targetEventId: string) => {
+    try {
+      const [ticketRows, checkinRows] = await Promise.all([
+        fetchAllRows<Ticket>(source, 'tickets', {
+          filter: { event_id: targetEventId },
+          order: [{ column: 'code', ascending: true }]
+        }),
+        fetchAllRows<TicketCheckin>(source, 'ticket_checkins', {
+          filter: { event_id: targetEventId },
+          order: [{ column: 'created_at', ascending: true }, { column: 'id', ascending: true }]
+        })
+      ]);
+      setTickets(ticketRows);
+      setTicketCheckins(checkinRows);
+    } catch (err) {
+      reportLoadError('Tickets', err);
+    }
+  };
+
+  const loadInventory = async (source: SyncBackend, targetEventId: string) => {
+    try {
+      const [itemRows, moveRows] = await Promise.all([
+        fetchAllRows<InventoryItem>(source, 'inventory_items', {
+          filter: { event_id: targetEventId },
+          order: [{ column: 'created_at', ascending: true }, { column: 'id', ascending: true }]
+        }),
+        fetchAllRows<InventoryMove>(source, 'inventory_moves', {
+          filter: { event_id: targetEventId },
+          order: [{ column: 'created_at', ascending: true }, { column: 'id', ascending: true }]
+        })
+      ]);
+      setInventoryItems(itemRows);
+      setInventoryMoves(moveRows);
+    } catch (err) {
+      reportLoadError('Inventory', err);
+    }
+  };
+
+  const loadSales = async (source: SyncBackend, targetEventId: string) => {
+    try {
+      const [saleRows, closeoutRows] = await Promise.all([
+        fetchAllRows<Sale>(source, 'sales', {
+          filter: { event_id: targetEventId },
+          order: [{ column: 'created_at', ascending: true }, { column: 'id', ascending: true }]
+        }),
+        fetchAllRows<StationCloseout>(source, 'station_closeouts', {
+          filter: { event_id: targetEventId },
+          order: [{ column: 'created_at', ascending: true }]
+        })
+      ]);
+      setSales(saleRows);
+      setCloseouts(closeoutRows);
+    } catch (err) {
+      reportLoadError('Sales', err);
+    }
+  };
+
+  const loadIncidents = async (source: SyncBackend, targetEventId: string) => {
+    try {
+      setIncidents(await fetchAllRows<Incident>(source, 'incidents', {
+        filter: { event_id: targetEventId },
+        order: [{ column: 'created_at', ascending: true }]
+      }));
+    } catch (err) {
+      reportLoadError('Incidents', err);
+    }
+  };
+
+  const loadArchives = async (source: SyncBackend, targetEventId: string) => {
+    const { data, error } = await source.select<EventArchive>('event_archives', {
+      filter: { event_id: targetEventId },
+      order: [{ column: 'created_at', ascending: false }]
+    });
+    if (error) reportLoadError('Archives', error);
+    if (data) setArchives(data);
+  };
+
+  const loadDoorTaps = async (source: SyncBackend, targetEventId: string) => {
+    try {
+      const taps = await fetchAllRows<DoorTap>(source, 'door_taps', {
+        filter: { event_id: targetEventId },
+        order: [{ column: 'created_at', ascending: true }, { column: 'id', ascending: true }]
+      });
+      setDoorTaps(taps);
+    } catch (err) {
+      reportLoadError('Door taps', err);
+    }
+  };
+
+  const disconnect = () => {
+    backend?.close();
+    setLoadErrors({});
+    setRealtimeIssue('');
+    setBackend(null);
+    backendRef.current = null;
+    setRoom(null);
+    setIsConnected(false);
+    localStorage.removeItem('sync_backend');
+    localStorage.removeItem('supabase_url');
+    localStorage.removeItem('supabase_key');
+    localStorage.removeItem('local_relay_url');
+    setMessages([]);
+    resetHistory();
+    setAcks([]);
+    setAckRequests([]);
+    setInboxBacklog([]);
+    setLastMessages({});
+    setDoorTaps([]);
+    setTickets([]);
+    setTicketCheckins([]);
+    setTicketResult(null);
+    setInventoryItems([]);
+    setInventoryMoves([]);
+    setSales([]);
+    setCloseouts([]);
+    setIncidents([]);
+    setAuditEntries(null);
+    setEvents([]);
+    setArchives([]);
+  };
+
+  // --- EVENTS ---
+
+  const switchEvent = (targetEventId: string) => {
+    setEventId(targetEventId);
+    localStorage.setItem('derby_event_id', targetEventId);
+    setEventError('');
+
+    // Tear down the old event's room before joining the new one
+    backend?.close();
+    setBackend(null);
+    backendRef.current = null;
+    setRoom(null);
+    setIsConnected(false);
+    setMessages([]);
+    resetHistory();
+    setAcks([]);
+    setAckRequests([]);
+    setInboxBacklog([]);
+    setLastMessages({});
+    setDoorTaps([]);
+    setTickets([]);
+    setTicketCheckins([]);
+    setTicketResult(null);
+    setInventoryItems([]);
+    setInventoryMoves([]);
+    setSales([]);
+    setCloseouts([]);
+    setIncidents([]);
+    setAuditEntries(null);
+    setArchives([]);
+    setCoordinatorDeviceId(localStorage.getItem(`derby_coordinator_${targetEventId}`) || null);
+    setCoordinatorPinHash(null);
+    prevCoordinatorRef.current = null;
+    setRunOfShow(EMPTY_RUN_OF_SHOW);
+    setQuickMessages(DEFAULT_QUICK_MESSAGES);
+    setQuickFill(null);
+    connectBackend(currentBackendConfig(), targetEventId);
+  };
+
+  const handleCreateEvent = async () => {
+    const name = newEventName.trim();
+    if (!name || !backend || !isCoordinator) return;
+
+    // New events start from the current capacity and WiFi settings, with the
+    // creating coordinator holding the role until they set the event's PIN
+    const { data, error } = await backend.insert<EventSummary>('event_state', [{
+      id: makeEventId(name),
+      name,
+      capacity,
+      wifi_ssid: wifiSSID,
+      wifi_pass: wifiPass,
+      coordinator_device_id: deviceId
+    }]);
+
+    if (error || !data) {
+      setEventError(error?.message || 'Could not create event');
+      return;
+    }
+    setNewEventName('');
+    switchEvent(data[0].id);
+  };
+
+  const handleArchiveEvent = async (targetEventId: string, archived: boolean) => {
+    if (!backend || !isCoordinator) return;
+
+    const { error } = await backend.update('event_state', { archived }, { id: targetEventId });
+
+    if (error) {
+      setEventError(error.message);
+      return;
+    }
+    const previous = events.find(ev => ev.id === targetEventId)?.archived ?? !archived;
+    await recordStateChanges(targetEventId, { archived: previous }, { archived });
+    await loadEvents(backend);
+  };
+
+  // --- ACTIONS ---
+
+  // --- AUDIT TRAIL ---
+
+  const auditRole = () => operatorName === 'Bout Coordinator' ? 'COORDINATOR' : operatorName || null;
+
+  // One audit row per field that actually changed
+  const recordStateChanges = async (
+    targetEventId: string,
+    previous: Record<string, any>,
+    payload: Record<string, any>,
+    role = auditRole()
+  ) => {
+    const createdAt = new Date(serverNow()).toISOString();
+    for (const field of Object.keys(payload)) {
+      if (JSON.stringify(payload[field] ?? null) === JSON.stringify(previous[field] ?? null)) continue;
+      const redact = REDACTED_FIELDS.includes(field);
+      await queueWrite({
+        table: 'state_changes',
+        action: 'insert',
+        payload: {
+          id: makeId(),
+          event_id: targetEventId,
+          field,
+          prev_value: redact ? null : previous[field] ?? null,
+          new_value: redact ? (payload[field] ? 'changed' : null) : payload[field],
+          role,
+          device_id: deviceId,
+          created_at: createdAt
+        }
+      });
+    }
+  };
+
+  // Queued event_state edits go through here. The previous value is the one
+  // last synced to this device, which is what the person making the change
+  // was looking at. Reset, undo and archiving write online and call
+  // recordStateChanges themselves.
+  const updateEventState = async (payload: Record<string, any>, role = auditRole()) => {
+    const previous = eventStateRef.current;
+    eventStateRef.current = { ...previous, ...payload };
+
+    await queueWrite({
+      table: 'event_state',
+      action: 'update',
+      payload,
+      match: { id: eventId }
+    });
+    await recordStateChanges(eventId, previous, payload, role);
+  };
+
+  const loadAuditTrail = async () => {
+    if (!backend) return;
+    setAuditError('');
+    try {
+      const changes = await fetchAllRows<StateChange>(backend, 'state_changes', {
+        filter: { event_id: eventId },
+        order: [{ column: 'created_at', ascending: true }]
+      });
+      setAuditEntries(buildAuditTrail(changes, doorTaps));
+    } catch (err) {
+      setAuditError(errorMessage(err) || 'Could not load the audit trail');
+    }
+  };
+
+  // --- NOTIFICATIONS ---
+
+  const alertDevice = (msg: Message) => {
+    const { prefs } = notifyRef.current;
+    if (prefs.chime) playAlertTone();
+    if (prefs.vibrate) navigator.vibrate?.(msg.urgent ? URGENT_BUZZ : [200]);
+    if (prefs.notify && document.visibilityState !== 'visible') {
+      showSystemNotification(`${getShortSender(msg.station)}${msg.urgent ? ' (URGENT)' : ''}`, msg, prefs.vibrate);
+    }
+  };
+
+  const notifyIncoming = (msg: Message) => {
+    const { role, prefs } = notifyRef.current;
+    if (!role || serverNow() - new Date(msg.created_at).getTime() > NOTIFY_MAX_AGE_MS) return;
+    if (isNotifiable(msg, role, prefs.everything)) alertDevice(msg);
+  };
+
+  const handleNotifyPrefsChange = (patch: Partial<NotifyPrefs>) => {
+    const prefs = { ...notifyPrefs, ...patch };
+    const { role } = notifyRef.current;
+    setNotifyPrefs(prefs);
+    notifyRef.current = { role, prefs };
+    localStorage.setItem(`derby_notify_${role}`, JSON.stringify(prefs));
+  };
+
+  // Browsers only ask from a tap, so this sits behind a button
+  const handleEnableNotifications = async () => {
+    if (typeof Notification === 'undefined') return;
+    setNotifyPermission(await Notification.requestPermission());
+  };
+
+  // --- CAPACITY ALERTS ---
+
+  // Both the tapping device and the realtime echo land here; the key keeps
+  // the banner and chime from firing twice for the same alert
+  const raiseCapacityAlert = (alert: Message) => {
+    const key = `${alert.alert_level}-${alert.created_at}`;
+    if (lastAlertKeyRef.current === key) return;
+    lastAlertKeyRef.current = key;
+
+    setActiveAlert(alert);
+    alertDevice(alert);
+  };
+
+  const postCapacityAlert = async (level: number, count: number) => {
+    const now = new Date(serverNow());
+    const sellers = stations.filter(isAdmissionsStation).map(st => st.short).join(', ');
+    const instruction = sellers ? ` ${sellers} ${level >= 100 ? 'stop sales.' : 'prepare to pause sales.'}` : '';
+    const alert: Message = {
+      id: 0,
+      event_id: eventId,
+      time: formatMessageTime(now),
+      station: 'SYSTEM',
+      text: level >= 100
+        ? `AT CAPACITY: ${count} / ${capacity} in building.${instruction}`
+        : `Capacity ${level}%: ${count} / ${capacity} in building.${instruction}`,
+      created_at: now.toISOString(),
+      kind: 'capacity_alert',
+      alert_level: level,
+      urgent: true
+    };
+    raiseCapacityAlert(alert);
+
+    const { id, ...row } = alert;
+    await queueWrite({ table: 'messages', action: 'insert', payload: row });
+  };
+
+  const handleAlertLevelsSave = async () => {
+    if (!isCoordinator) return;
+    const levels = parseAlertLevels(alertLevelsInput);
+    setAlertLevels(levels);
+    setAlertLevelsInput(levels.join(', '));
+
+    await updateEventState({ alert_levels: levels });
+  };
+
+  // Applies the tap here straight away and hands back its queued write, so a
+  // caller can record what hangs off the tap before anything is awaited
+  const applyTap = (door: DoorId, kind: TapKind, delta: number) => {
+    if (doorCount + delta < 0) return null;
+
+    // Only the device whose tap crosses a level posts the alert
+    const before = (doorCount / (capacity || 1)) * 100;
+    const after = ((doorCount + delta) / (capacity || 1)) * 100;
+    const crossed = alertLevels.filter(level => before < level && after >= level);
+    if (crossed.length > 0) {
+      postCapacityAlert(Math.max(...crossed), doorCount + delta);
+    }
+
+    const tap: DoorTap = {
+      id: makeId(),
+      event_id: eventId,
+      door,
+      kind,
+      delta,
+      device_id: deviceId,
+      role: auditRole(),
+      created_at: new Date(serverNow()).toISOString()
+    };
+    setDoorTaps(prev => [...prev, tap]);
+
+    return { tap, write: queueWrite({ table: 'door_taps', action: 'insert', payload: tap }) };
+  };
 
-// --- LOGO COMPONENT ---
-const BcsLogo = () => (
-  <svg width="24" height="24" viewBox="0 0 64 64" fill="none" className="app-logo">
-    <rect x="8" y="8" width="48" height="48" rx="8" stroke="currentColor" strokeWidth="4" className="logo-rect"/>
-    <path d="M32 8 V24 M32 40 V56 M8 32 H24 M40 32 H56" stroke="currentColor" strokeWidth="4" className="logo-lines"/>
-    <circle cx="32" cy="32" r="6" fill="currentColor" className="logo-dot"/>
-  </svg>
-);
+  const recordTap = async (door: DoorId, kind: TapKind, delta: number) => {
+    const applied = applyTap(door, kind, delta);
+    if (!applied) return null;
+    await applied.write;
+    return applied.tap;
+  };
 
-const generateDeviceId = () => {
-  let id = localStorage.getItem('derby_device_id');
-  if (!id) {
-    id = 'dev_' + Math.random().toString(36).substr(2, 9);
-    localStorage.setItem('derby_device_id', id);
-  }
-  return id;
-};
+  const handleDoorChange = (kind: TapKind) => recordTap(activeDoor, kind, kind === 'ENTRY' ? 1 : -1);
 
-const BoutCoordinatorApp = () => {
-  // --- STATE ---
-  const [deviceId] = useState<string>(generateDeviceId());
-  const [operatorName, setOperatorName] = useState(''); 
-  
-  // App Data
-  const [doorCount, setDoorCount] = useState<number>(0);
-  const [capacity, setCapacity] = useState<number>(300);
-  const [messages, setMessages] = useState<Message[]>([]);
-  
-  // Input State
-  const [inputText, setInputText] = useState('');
-  const [selectedStation, setSelectedStation] = useState<Station | null>(null);
+  // Corrections are recorded as their own rows so a miscount stays visible
+  // in the ledger instead of looking like someone walking out
+  const handleUndoTap = async () => {
+    const lastTap = findUndoableTap(doorTaps, deviceId);
+    if (!lastTap) return;
+    // No correction (the count is already at zero) leaves the ticket used
+    const correction = await recordTap(lastTap.door || 'MAIN', getTapKind(lastTap), -lastTap.delta);
+    if (!correction) return;
 
-  // Supabase State
-  const [supabaseClient, setSupabaseClient] = useState<SupabaseClient | null>(null);
-  const [channel, setChannel] = useState<RealtimeChannel | null>(null);
-  const [configUrl, setConfigUrl] = useState('');
-  const [configKey, setConfigKey] = useState('');
-  const [isConnected, setIsConnected] = useState(false);
-  const [showNetworkModal, setShowNetworkModal] = useState<boolean>(false);
-  const [connectionError, setConnectionError] = useState('');
-  
-  // WiFi State
-  const [wifiSSID, setWifiSSID] = useState('GRDFOH');
-  const [wifiPass, setWifiPass] = useState('gorgerollerderby23');
-  const [showWifiQr, setShowWifiQr] = useState(false);
-  const [qrDataUrl, setQrDataUrl] = useState('');
-  
-  // Presence State
-  const [otherCoordinatorOnline, setOtherCoordinatorOnline] = useState(false);
+    // A corrected ticket entry frees the ticket again
+    const checkin = ticketCheckins.find(c => c.tap_id === lastTap.id && !c.voided_at);
+    if (checkin) await voidTicketCheckin(checkin);
+  };
 
-  // Reset State
-  const [showResetView, setShowResetView] = useState(false);
-  const [resetInputText, setResetInputText] = useState('');
+  // --- TICKETS ---
 
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Lookups run against this device's copy of the list and ledger, which
+  // realtime keeps current; a race between two doors shows up afterwards as
+  // a double entry in the reconciliation
+  const handleTicketCheckin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ticketCodeInput.trim()) return;
 
-  // Auto-scroll messages
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+    // A second scan can land before the first one's state has rendered
+    const pending = pendingCheckinsRef.current.filter(p => !ticketCheckins.some(c => c.id === p.id));
+    const result = checkTicket(ticketCodeInput, tickets, [...ticketCheckins, ...pending]);
+    setTicketResult(result);
+    setTicketCodeInput('');
+    if (result.status !== 'OK') return;
 
-  // Load Saved Role on Mount
-  useEffect(() => {
-    const savedRole = localStorage.getItem('derby_role');
-    if (savedRole) {
-      setOperatorName(savedRole);
+    const applied = applyTap(activeDoor, 'ENTRY', 1);
+    const checkin: TicketCheckin = {
+      id: makeId(),
+      event_id: eventId,
+      code: result.code,
+      door: activeDoor,
+      tap_id: applied?.tap.id || null,
+      device_id: deviceId,
+      created_at: new Date(serverNow()).toISOString(),
+      voided_at: null
+    };
+    pendingCheckinsRef.current = [...pendingCheckinsRef.current, checkin];
+    setTicketCheckins(prev => [...prev, checkin]);
+
+    try {
+      await applied?.write;
+      await queueWrite({ table: 'ticket_checkins', action: 'insert', payload: checkin });
+    } finally {
+      pendingCheckinsRef.current = pendingCheckinsRef.current.filter(p => p.id !== checkin.id);
     }
-  }, []);
+  };
 
-  // Persist Role Logic & Update Presence
-  useEffect(() => {
-    if (operatorName) {
-      localStorage.setItem('derby_role', operatorName);
-    } else {
-      localStorage.removeItem('derby_role');
+  const voidTicketCheckin = async (checkin: TicketCheckin) => {
+    const voidedAt = new Date(serverNow()).toISOString();
+    setTicketCheckins(prev => prev.map(c => c.id === checkin.id ? { ...c, voided_at: voidedAt } : c));
+    setTicketResult(prev => prev?.code === checkin.code ? null : prev);
+    await queueWrite({
+      table: 'ticket_checkins',
+      action: 'update',
+      payload: { voided_at: voidedAt },
+      match: { id: checkin.id }
+    });
+  };
+
+  // Imports need a live connection: a big list shouldn't sit in the outbox.
+  // Codes already on the list are left alone, so re-importing an updated
+  // export only adds the new sales.
+  const handleTicketImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !backend || !isCoordinator) return;
+    setTicketImportNote('');
+    setTicketImportError('');
+
+    try {
+      const { tickets: parsed, skipped } = parseTicketCsv(await file.text(), eventId);
+      const known = new Set(tickets.map(t => t.code));
+      const fresh = parsed.filter(t => !known.has(t.code));
+
+      for (let i = 0; i < fresh.length; i += 500) {
+        const { error } = await backend.insert('tickets', fresh.slice(i, i + 500));
+        if (error) throw error;
+      }
+      setTickets(prev => [...prev, ...fresh.filter(t => !prev.some(p => p.code === t.code))]);
+      setTicketImportNote(
+        `${fresh.length} added, ${parsed.length - fresh.length} already on the list` +
+        (skipped > 0 ? `, ${skipped} rows skipped (no code or repeated)` : '')
+      );
+    } catch (err) {
+      console.error(err);
+      setTicketImportError(errorMessage(err) || 'Import failed');
+      await loadTickets(backend, eventId);
     }
+  };
 
-    // Update Presence if connected
-    if (channel) {
-      channel.track({
-        device_id: deviceId,
-        role: operatorName,
-        online_at: new Date().toISOString()
-      }).catch(err => console.error("Presence track error", err));
+  // --- INVENTORY ---
+
+  // Like capacity alerts, only the device whose move crosses the threshold
+  // posts the message, and it goes out as the item's station so it lands on
+  // that station's card
+  const postStockAlert = async (item: InventoryItem, remaining: number) => {
+    const now = new Date(serverNow());
+    await queueWrite({
+      table: 'messages',
+      action: 'insert',
+      payload: {
+        event_id: eventId,
+        time: formatMessageTime(now),
+        station: item.station,
+        text: remaining <= 0 ? `SOLD OUT: ${itemLabel(item)}` : `LOW STOCK: ${itemLabel(item)}, ${remaining} left`,
+        created_at: now.toISOString(),
+        kind: 'low_stock',
+        urgent: true
+      }
+    });
+  };
+
+  const recordStockMove = async (item: InventoryItem, kind: InventoryMoveKind, delta: number, corrects: string | null = null) => {
+    const before = stock[item.id] ?? item.start_stock;
+    const after = before + delta;
+    if (after < 0) return;
+
+    if ((!isLowStock(item, before) && isLowStock(item, after)) || (before > 0 && after <= 0)) {
+      postStockAlert(item, after);
     }
-  }, [operatorName, channel, deviceId]);
 
-  // Load credentials from Env or local storage on mount
-  useEffect(() => {
-    // 1. Defaults provided by user
-    const DEFAULT_URL = 'https://rcfjdnzppdbrjjugzzza.supabase.co';
-    const DEFAULT_KEY = 'sb_publishable_9VrqHhPhwkRDSS0YdVEUGg_m_lh9clC';
+    const move: InventoryMove = {
+      id: makeId(),
+      event_id: eventId,
+      item_id: item.id,
+      station: item.station,
+      kind,
+      delta,
+      corrects,
+      device_id: deviceId,
+      created_at: new Date(serverNow()).toISOString()
+    };
+    setInventoryMoves(prev => [...prev, move]);
+    await queueWrite({ table: 'inventory_moves', action: 'insert', payload: move });
+  };
 
-    // 2. Load from LocalStorage or fall back to defaults
-    // We REMOVED process.env checks here to avoid crashing on mobile browsers
-    const savedUrl = localStorage.getItem('supabase_url');
-    const savedKey = localStorage.getItem('supabase_key');
+  const handleRestock = async (item: InventoryItem) => {
+    const qty = parseInt(restockQty);
+    if (!qty || qty < 1) return;
+    setRestockItemId(null);
+    setRestockQty('');
+    await recordStockMove(item, 'RESTOCK', qty);
+  };
 
-    if (savedUrl && savedKey) {
-      setConfigUrl(savedUrl);
-      setConfigKey(savedKey);
-      connectToSupabase(savedUrl, savedKey);
+  const handleUndoStockMove = () => {
+    const lastMove = findUndoableMove(inventoryMoves, deviceId, panelStation);
+    const item = lastMove && inventoryItems.find(i => i.id === lastMove.item_id);
+    if (lastMove && item) recordStockMove(item, 'CORRECTION', -lastMove.delta, lastMove.id);
+  };
+
+  // Comma-separated variants become one item each, sharing the stock figures
+  const handleAddItem = async () => {
+    const name = newItemName.trim();
+    if (!name || !panelStation) return;
+
+    const variants = newItemVariants.split(',').map(v => v.trim()).filter(Boolean);
+    const createdAt = new Date(serverNow()).toISOString();
+    const items: InventoryItem[] = (variants.length > 0 ? variants : ['']).map(variant => ({
+      id: makeId(),
+      event_id: eventId,
+      station: panelStation,
+      name,
+      variant,
+      start_stock: Math.max(0, parseInt(newItemStock) || 0),
+      low_stock_at: Math.max(0, parseInt(newItemLowAt) || 0),
+      archived: false,
+      created_at: createdAt
+    }));
+
+    setInventoryItems(prev => [...prev, ...items]);
+    setNewItemName('');
+    setNewItemVariants('');
+    setNewItemStock('');
+    setNewItemLowAt('');
+    setShowAddItem(false);
+    for (const item of items) {
+      await queueWrite({ table: 'inventory_items', action: 'insert', payload: item });
+    }
+  };
+
+  // Items are hidden rather than deleted so their sales stay in the export
+  const handleRemoveItem = async (item: InventoryItem) => {
+    if (!panelStation || !window.confirm(`Stop tracking ${itemLabel(item)}?`)) return;
+    setInventoryItems(prev => prev.map(i => i.id === item.id ? { ...i, archived: true } : i));
+    await queueWrite({
+      table: 'inventory_items',
+      action: 'update',
+      payload: { archived: true },
+      match: { id: item.id }
+    });
+  };
+
+  // --- SALES ---
+
+  const handleRecordSale = async (method: PaymentMethod) => {
+    const amount = parseMoney(saleAmount);
+    if (!amount || !panelStation) return;
+
+    const sale: Sale = {
+      id: makeId(),
+      event_id: eventId,
+      station: panelStation,
+      method,
+      amount,
+      device_id: deviceId,
+      created_at: new Date(serverNow()).toISOString(),
+      voided_at: null
+    };
+    setSales(prev => [...prev, sale]);
+    setSaleAmount('');
+    await queueWrite({ table: 'sales', action: 'insert', payload: sale });
+  };
+
+  // Voided rather than deleted, so the treasurer can still see the mistake
+  const handleVoidSale = async () => {
+    if (!undoableSale) return;
+    const voidedAt = new Date(serverNow()).toISOString();
+    setSales(prev => prev.map(s => s.id === undoableSale.id ? { ...s, voided_at: voidedAt } : s));
+    await queueWrite({
+      table: 'sales',
+      action: 'update',
+      payload: { voided_at: voidedAt },
+      match: { id: undoableSale.id }
+    });
+  };
+
+  const handleOpenCloseout = () => {
+    const last = panelReport?.closeout;
+    setCloseoutFloat(last ? (last.opening_float / 100).toFixed(2) : '');
+    setCloseoutCash('');
+    setCloseoutCard('');
+    setCloseoutNote('');
+    setShowCloseout(true);
+  };
+
+  const handleCloseout = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const counted = [parseMoney(closeoutFloat || '0'), parseMoney(closeoutCash), parseMoney(closeoutCard || '0')];
+    if (!panelStation || counted.some(value => value === null)) return;
+    const [openingFloat, countedCash, countedCard] = counted as number[];
+
+    const closeout: StationCloseout = {
+      id: makeId(),
+      event_id: eventId,
+      station: panelStation,
+      opening_float: openingFloat,
+      counted_cash: countedCash,
+      counted_card: countedCard,
+      note: closeoutNote.trim(),
+      device_id: deviceId,
+      created_at: new Date(serverNow()).toISOString()
+    };
+    setCloseouts(prev => [...prev, closeout]);
+    setShowCloseout(false);
+    await queueWrite({ table: 'station_closeouts', action: 'insert', payload: closeout });
+  };
+
+  const handleCapacitySave = async () => {
+    if (capacityDraft === null) return;
+    const newCap = Math.max(1, parseInt(capacityDraft) || 0);
+    setCapacityDraft(null);
+    if (!isCoordinator || newCap === capacity) return;
+    setCapacity(newCap);
+
+    await updateEventState({ capacity: newCap });
+  };
+
+  const handleMilestone = async (id: MilestoneId) => {
+    if (!isCoordinator) return;
+
+    const next = { ...milestones };
+    if (next[id]) {
+      const label = MILESTONES.find(m => m.id === id)!.label;
+      if (!window.confirm(`Clear the ${label} mark?`)) return;
+      delete next[id];
     } else {
-      // Use defaults if no local storage override exists
-      setConfigUrl(DEFAULT_URL);
-      setConfigKey(DEFAULT_KEY);
-      connectToSupabase(DEFAULT_URL, DEFAULT_KEY);
+      next[id] = new Date(serverNow()).toISOString();
     }
-  }, []);
+    setMilestones(next);
 
-  // Generate QR Code when WiFi details change or modal opens
-  useEffect(() => {
-    if (showWifiQr && wifiSSID) {
-      // WPA Format: WIFI:T:WPA;S:mynetwork;P:mypass;;
-      const qrString = `WIFI:T:WPA;S:${wifiSSID};P:${wifiPass};;`;
-      QRCode.toDataURL(qrString, { width: 300, margin: 2, color: { dark: '#000000', light: '#ffffff' } })
-        .then(url => {
-          setQrDataUrl(url);
+    await updateEventState({ milestones: next });
+  };
+
+  const handleFullReset = async () => {
+    if (resetInputText !== 'RESET' || !isCoordinator || !backend) return;
+    setResetError('');
+
+    try {
+      // 1. Snapshot the full log and ledger, not just what this device has loaded
+      const eventFilter = { event_id: eventId };
+      const [allMessages, allTaps, allAcks, allCheckins, allMoves, allSales, allCloseouts, allIncidents] = await Promise.all([
+        fetchAllRows<Message>(backend, 'messages', {
+          filter: eventFilter,
+          order: [{ column: 'id', ascending: true }]
+        }),
+        fetchAllRows<DoorTap>(backend, 'door_taps', {
+          filter: eventFilter,
+          order: [{ column: 'created_at', ascending: true }, { column: 'id', ascending: true }]
+        }),
+        fetchAllRows<MessageAck>(backend, 'message_acks', {
+          filter: eventFilter,
+          order: [{ column: 'created_at', ascending: true }]
+        }),
+        fetchAllRows<TicketCheckin>(backend, 'ticket_checkins', {
+          filter: eventFilter,
+          order: [{ column: 'created_at', ascending: true }, { column: 'id', ascending: true }]
+        }),
+        fetchAllRows<InventoryMove>(backend, 'inventory_moves', {
+          filter: eventFilter,
+          order: [{ column: 'created_at', ascending: true }, { column: 'id', ascending: true }]
+        }),
+        fetchAllRows<Sale>(backend, 'sales', {
+          filter: eventFilter,
+          order: [{ column: 'created_at', ascending: true }, { column: 'id', ascending: true }]
+        }),
+        fetchAllRows<StationCloseout>(backend, 'station_closeouts', {
+          filter: eventFilter,
+          order: [{ column: 'created_at', ascending: true }]
+        }),
+        fetchAllRows<Incident>(backend, 'incidents', {
+          filter: eventFilter,
+          order: [{ column: 'created_at', ascending: true }]
         })
-        .catch(err => {
-          console.error(err);
-        });
-    }
-  }, [showWifiQr, wifiSSID, wifiPass]);
+      ]);
 
-  // --- SUPABASE LOGIC ---
+      const { error: archiveError } = await backend.insert('event_archives', [{
+        id: makeId(),
+        event_id: eventId,
+        created_by: deviceId,
+        door_count: doorCount,
+        messages: allMessages,
+        door_taps: allTaps,
+        message_acks: allAcks,
+        ticket_checkins: allCheckins,
+        inventory_moves: allMoves,
+        sales: allSales,
+        station_closeouts: allCloseouts,
+        incidents: allIncidents,
+        milestones
+      }]);
+      // Never clear anything we failed to archive
+      if (archiveError) throw archiveError;
 
-  const connectToSupabase = async (url: string, key: string) => {
-    if (!url || !key) {
-      setConnectionError('Please enter both URL and API Key');
+      // 2. Clear the live event, stopping at the first step that fails. Only
+      // archived rows go, so anything written since the snapshot survives.
+      // Acks go with their messages, as the foreign key cascade would.
+      const ids = (rows: { id: string | number }[]) => rows.map(row => row.id);
+      const steps: [string, () => Promise<SyncResult>, number][] = [
+        ['milestones', () => backend.update('event_state', { milestones: {} }, { id: eventId }), 1],
+        ['door taps', () => removeByIds(backend, 'door_taps', 'id', ids(allTaps)), allTaps.length],
+        ['ticket check-ins', () => removeByIds(backend, 'ticket_checkins', 'id', ids(allCheckins)), allCheckins.length],
+        ['stock moves', () => removeByIds(backend, 'inventory_moves', 'id', ids(allMoves)), allMoves.length],
+        ['sales', () => removeByIds(backend, 'sales', 'id', ids(allSales)), allSales.length],
+        ['close outs', () => removeByIds(backend, 'station_closeouts', 'id', ids(allCloseouts)), allCloseouts.length],
+        ['incidents', () => removeByIds(backend, 'incidents', 'id', ids(allIncidents)), allIncidents.length],
+        ['acks', () => removeByIds(backend, 'message_acks', 'message_id', [...new Set(allAcks.map(a => a.message_id))]), allAcks.length],
+        ['messages', () => removeByIds(backend, 'messages', 'id', ids(allMessages)), allMessages.length]
+      ];
+      const cleared: string[] = [];
+      try {
+        for (const [label, run, expectedRows] of steps) {
+          assertWrite(`Clearing ${label}`, await run(), expectedRows);
+          cleared.push(label);
+          if (label === 'milestones') {
+            eventStateRef.current = { ...eventStateRef.current, milestones: {} };
+            setMilestones({});
+            await recordStateChanges(eventId, { milestones }, { milestones: {} });
+          }
+        }
+      } catch (err) {
+        // Show what the database really holds now; the archive has the rest
+        console.error(err);
+        setResetError(cleared.length > 0
+          ? `Partial reset. ${errorMessage(err)}. Already cleared: ${cleared.join(', ')}. UNDO RESET puts them back.`
+          : `${errorMessage(err)}. Nothing was cleared.`);
+        await reloadEventData(backend);
+        return;
+      }
+    } catch (err) {
+      console.error(err);
+      setResetError(errorMessage(err) || 'Reset failed. Nothing was cleared.');
       return;
     }
 
+    setTicketResult(null);
+    setClockNow(Date.now());
+    // Rows written after the snapshot are still live, so reload rather than clear
+    await reloadEventData(backend);
+    
+    setShowResetView(false);
+    setResetInputText('');
+    setShowNetworkModal(false);
+  };
+
+  const handleUndoReset = async (archive: EventArchive) => {
+    if (!isCoordinator || !backend || !canUndoArchive(archive, Date.now())) return;
+    setResetError('');
+
+    // Put the original rows back (ids included) one table at a time, then
+    // mark the snapshot restored. Rows an earlier try already put back are
+    // skipped, so running it again finishes the job. Acks reference
+    // messages, so they go back once the messages exist.
+    const steps: [string, string, object[] | undefined][] = [
+      ['messages', 'messages', archive.messages],
+      ['door taps', 'door_taps', archive.door_taps],
+      ['ticket check-ins', 'ticket_checkins', archive.ticket_checkins],
+      ['stock moves', 'inventory_moves', archive.inventory_moves],
+      ['sales', 'sales', archive.sales],
+      ['close outs', 'station_closeouts', archive.station_closeouts],
+      ['incidents', 'incidents', archive.incidents],
+      ['acks', 'message_acks', archive.message_acks]
+    ];
+    const restored: string[] = [];
     try {
-      const client = createClient(url, key);
-      
-      // 1. Initial Fetch
-      const { data: stateData } = await client
-        .from('event_state')
-        .select('*')
-        .eq('id', 'global_event')
-        .single();
-      
-      if (stateData) {
-        setDoorCount(stateData.door_count);
-        setCapacity(stateData.capacity);
-        if (stateData.wifi_ssid) setWifiSSID(stateData.wifi_ssid);
-        if (stateData.wifi_pass) setWifiPass(stateData.wifi_pass);
+      for (const [label, table, rows] of steps) {
+        if (!rows?.length) continue;
+        // Every row may already be back, so no rows returned is fine here
+        assertWrite(`Restoring ${label}`, await backend.insert(table, rows, { ignoreDuplicates: true }), 0);
+        restored.push(label);
       }
 
-      // Fetch recent messages
-      const { data: msgData } = await client
-        .from('messages')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(50);
-        
-      if (msgData) {
-        setMessages(msgData.reverse() as any); 
-      }
+      assertWrite('Restoring milestones', await backend.update('event_state', { milestones: archive.milestones || {} }, { id: eventId }));
+      eventStateRef.current = { ...eventStateRef.current, milestones: archive.milestones || {} };
+      await recordStateChanges(eventId, { milestones }, { milestones: archive.milestones || {} });
+      setMilestones(archive.milestones || {});
+      restored.push('milestones');
 
-      // 2. Realtime Subscription (Data + Presence)
-      const newChannel = client.channel('public:room', {
-        config: {
-          presence: {
-            key: deviceId,
-          },
-        },
-      });
+      assertWrite('Marking the archive restored', await backend.update('event_archives', { restored_at: new Date(serverNow()).toISOString() }, { id: archive.id }));
+    } catch (err) {
+      console.error(err);
+      setResetError(restored.length > 0
+        ? `Partial undo. ${errorMessage(err)}. Already restored: ${restored.join(', ')}. UNDO RESET again to finish.`
+        : `${errorMessage(err)}. Nothing was restored.`);
+    }
 
-      newChannel
-        .on(
-          'postgres_changes',
-          { event: 'UPDATE', schema: 'public', table: 'event_state', filter: 'id=eq.global_event' },
-          (payload) => {
-            const newState = payload.new;
-            setDoorCount(newState.door_count);
-            setCapacity(newState.capacity);
-            if (newState.wifi_ssid !== undefined) setWifiSSID(newState.wifi_ssid);
-            if (newState.wifi_pass !== undefined) setWifiPass(newState.wifi_pass);
-          }
-        )
-        .on(
-          'postgres_changes',
-          { event: 'INSERT', schema: 'public', table: 'messages' },
-          (payload) => {
-            const newMsg = payload.new as Message;
-            setMessages(prev => [...prev, newMsg]);
-          }
-        )
-        .on('presence', { event: 'sync' }, () => {
-          const state = newChannel.presenceState();
-          let bcFound = false;
-          
-          Object.values(state).forEach((presences: any) => {
-            if (Array.isArray(presences)) {
-              presences.forEach((p: any) => {
-                if (p.role === 'COORDINATOR' && p.device_id !== deviceId) {
-                  bcFound = true;
-                }
-              });
-            }
-          });
-          
-          setOtherCoordinatorOnline(bcFound);
-        })
-        .subscribe(async (status) => {
-          if (status === 'SUBSCRIBED') {
-            setIsConnected(true);
-            setSupabaseClient(client);
-            setChannel(newChannel);
-            setShowNetworkModal(false);
-            setConnectionError('');
-            
-            // Track initial presence
-            const currentRole = localStorage.getItem('derby_role') || '';
-            await newChannel.track({
-              device_id: deviceId,
-              role: currentRole,
-              online_at: new Date().toISOString()
-            });
+    await reloadEventData(backend);
+  };
 
-            // Persist connection info
-            localStorage.setItem('supabase_url', url);
-            localStorage.setItem('supabase_key', key);
-          }
+  const reloadEventData = (source: SyncBackend) => Promise.all([
+    loadMessages(source, eventId),
+    loadAcks(source, eventId),
+    loadAckRequests(source, eventId),
+    loadLastMessages(source, eventId, stations.map(st => st.code)),
+    ...(notifyRef.current.role ? [loadInbox(source, eventId, notifyRef.current.role)] : []),
+    loadDoorTaps(source, eventId),
+    loadTickets(source, eventId),
+    loadInventory(source, eventId),
+    loadSales(source, eventId),
+    loadIncidents(source, eventId),
+    loadArchives(source, eventId)
+  ]);
+
+  // --- INCIDENTS ---
+
+  const handleReportIncident = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!incidentDraft || !isAssigned || !incidentDraft.description.trim()) return;
+
+    const incident: Incident = {
+      id: makeId(),
+      event_id: eventId,
+      ...incidentDraft,
+      location: incidentDraft.location.trim(),
+      description: incidentDraft.description.trim(),
+      reported_by: myStation,
+      device_id: deviceId,
+      assignee: null,
+      status: 'OPEN',
+      created_at: new Date(serverNow()).toISOString(),
+      responding_at: null,
+      resolved_at: null,
+      resolution: ''
+    };
+    setIncidents(prev => [...prev, incident]);
+    setIncidentDraft(null);
+    await queueWrite({ table: 'incidents', action: 'insert', payload: incident });
+  };
+
+  const updateIncident = async (incident: Incident, patch: Partial<Incident>) => {
+    setIncidents(prev => prev.map(i => i.id === incident.id ? { ...i, ...patch } : i));
+    await queueWrite({ table: 'incidents', action: 'update', payload: patch, match: { id: incident.id } });
+  };
+
+  // Whoever responds takes it unless someone is already assigned
+  const handleRespondIncident = (incident: Incident) => updateIncident(incident, {
+    status: 'RESPONDING',
+    responding_at: incident.responding_at || new Date(serverNow()).toISOString(),
+    assignee: incident.assignee || myStation
+  });
+
+  const handleResolveIncident = (incident: Incident) => {
+    const resolution = window.prompt('How was it resolved? (optional)', '');
+    if (resolution === null) return;
+    const now = new Date(serverNow()).toISOString();
+    updateIncident(incident, {
+      status: 'RESOLVED',
+      // Resolving straight from open counts as the response too
+      responding_at: incident.responding_at || now,
+      resolved_at: now,
+      resolution: resolution.trim()
+    });
+  };
+
+  // --- RUN OF SHOW ---
+
+  const postCue = async ({ cue, segment }: ReturnType<typeof scheduleCues>[number], cueKey: string) => {
+    const now = new Date(serverNow());
+    await queueWrite({
+      table: 'messages',
+      action: 'insert',
+      payload: {
+        event_id: eventId,
+        time: formatMessageTime(now),
+        station: 'SYSTEM',
+        text: `${segment.label} ${describeOffset(cue.offset)}: ${cue.text}`,
+        created_at: now.toISOString(),
+        kind: 'cue',
+        urgent: cue.urgent,
+        recipients: cue.recipients.length > 0 ? cue.recipients : null,
+        cue_id: cueKey
+      }
+    });
+  };
+
+  const handleEditSchedule = () => {
+    setShowDraft(runOfShow.segments.length > 0
+      ? { ...runOfShow, date: runOfShow.date || toLocalDate(serverNow()) }
+      : {
+          date: toLocalDate(serverNow()),
+          segments: DEFAULT_SEGMENTS.map(([label, time]) => ({ id: makeId(), label, time })),
+          cues: []
         });
+  };
 
-    } catch (err: any) {
-      console.error(err);
-      setConnectionError(err.message || 'Failed to connect. Check credentials.');
-      setIsConnected(false);
-    }
+  const patchDraftSegment = (id: string, patch: Partial<ShowSegment>) =>
+    setShowDraft(prev => prev && { ...prev, segments: prev.segments.map(seg => seg.id === id ? { ...seg, ...patch } : seg) });
+
+  const patchDraftCue = (id: string, patch: Partial<ShowCue>) =>
+    setShowDraft(prev => prev && { ...prev, cues: prev.cues.map(cue => cue.id === id ? { ...cue, ...patch } : cue) });
+
+  // A segment's cues go with it
+  const removeDraftSegment = (id: string) =>
+    setShowDraft(prev => prev && {
+      ...prev,
+      segments: prev.segments.filter(seg => seg.id !== id),
+      cues: prev.cues.filter(cue => cue.segment_id !== id)
+    });
+
+  const addDraftSegment = () =>
+    setShowDraft(prev => prev && { ...prev, segments: [...prev.segments, { id: makeId(), label: '', time: '' }] });
+
+  const addDraftCue = () =>
+    setShowDraft(prev => prev && prev.segments.length > 0 ? {
+      ...prev,
+      cues: [...prev.cues, { id: makeId(), segment_id: prev.segments[0].id, offset: -5, text: '', recipients: [], urgent: false }]
+    } : prev);
+
+  const handleScheduleSave = async () => {
+    if (!isCoordinator || !showDraft) return;
+    const segments = showDraft.segments
+      .map(seg => ({ ...seg, label: seg.label.trim() }))
+      .filter(seg => seg.label && seg.time);
+    const next: RunOfShow = {
+      date: showDraft.date,
+      segments,
+      cues: showDraft.cues
+        .map(cue => ({ ...cue, text: cue.text.trim(), offset: Math.round(cue.offset) || 0 }))
+        .filter(cue => cue.text && segments.some(seg => seg.id === cue.segment_id))
+    };
+    setRunOfShow(next);
+    setShowDraft(null);
+
+    await updateEventState({ run_of_show: next });
   };
 
-  const disconnect = () => {
-    if (supabaseClient) {
-      supabaseClient.removeAllChannels();
-    }
-    setSupabaseClient(null);
-    setChannel(null);
-    setIsConnected(false);
-    localStorage.removeItem('supabase_url');
-    localStorage.removeItem('supabase_key');
-    setMessages([]);
-    setDoorCount(0);
+  // --- QUICK MESSAGES ---
+
+  const patchQuickDraft = (id: string, patch: Partial<QuickMessage>) =>
+    setQuickDraft(prev => prev && prev.map(qm => qm.id === id ? { ...qm, ...patch } : qm));
+
+  const handleQuickMessagesSave = async () => {
+    if (!isCoordinator || !quickDraft) return;
+    const next = quickDraft
+      .map(qm => ({ ...qm, text: qm.text.trim() }))
+      .filter(qm => qm.text);
+    setQuickMessages(next);
+    setQuickDraft(null);
+
+    await updateEventState({ quick_messages: next });
   };
 
-  // --- ACTIONS ---
+  // --- COORDINATOR ROLE ---
 
-  const handleDoorChange = async (delta: number) => {
-    const newCount = Math.max(0, doorCount + delta);
-    setDoorCount(newCount);
+  // System notices go into the log like any message, sent as SYSTEM
+  const postSystemMessage = async (text: string, kind: Message['kind']) => {
+    const now = new Date(serverNow());
+    await queueWrite({
+      table: 'messages',
+      action: 'insert',
+      payload: {
+        event_id: eventId,
+        time: formatMessageTime(now),
+        station: 'SYSTEM',
+        text,
+        created_at: now.toISOString(),
+        kind
+      }
+    });
+  };
 
-    if (supabaseClient) {
-      await supabaseClient
-        .from('event_state')
-        .update({ door_count: newCount })
-        .eq('id', 'global_event');
-    }
+  // --- STATIONS ---
+
+  const handleStationDraftChange = (code: string, patch: Partial<StationConfig>) => {
+    setStationDraft(prev => prev && prev.map(st => st.code === code ? { ...st, ...patch } : st));
   };
 
-  const handleCapacityChange = async (newCap: number) => {
-    setCapacity(newCap);
+  const handleStationMove = (code: string, step: number) => {
+    setStationDraft(prev => {
+      if (!prev) return prev;
+      const index = prev.findIndex(st => st.code === code);
+      const target = index + step;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
 
-    if (supabaseClient) {
-      await supabaseClient
-        .from('event_state')
-        .update({ capacity: newCap })
-        .eq('id', 'global_event');
-    }
+  const handleStationRemove = (code: string) => {
+    setStationDraft(prev => prev && prev.filter(st => st.code !== code));
   };
 
-  const handleFullReset = async () => {
-    if (resetInputText !== 'RESET') return;
+  const handleStationAdd = () => {
+    const name = newStationName.trim();
+    if (!name || !stationDraft) return;
 
-    if (supabaseClient) {
-      await supabaseClient
-        .from('event_state')
-        .update({ door_count: 0 })
-        .eq('id', 'global_event');
-      
-      await supabaseClient
-        .from('messages')
-        .delete()
-        .neq('id', -1);
+    setStationDraft([...stationDraft, {
+      code: makeStationCode(name, stationDraft.map(st => st.code)),
+      name,
+      short: name.toUpperCase().slice(0, 8),
+      color: STATION_PALETTE[stationDraft.length % STATION_PALETTE.length],
+      order: stationDraft.length
+    }]);
+    setNewStationName('');
+  };
+
+  // Codes never change once created, so renaming a station keeps its history
+  const handleStationsSave = async () => {
+    if (!isCoordinator || !stationDraft) return;
+    const next = stationDraft
+      .filter(st => st.name.trim())
+      .map((st, order) => ({ ...st, name: st.name.trim(), short: st.short.trim() || st.code, order }));
+    setStations(next);
+    setStationDraft(null);
+
+    await updateEventState({ stations: next });
+  };
+
+  const handleClaimBC = () => {
+    setPinInput('');
+    setPinError('');
+    setShowPinModal(true);
+  };
+
+  // The first claim on an event sets its PIN; claiming while another device
+  // holds the role is a forced takeover and is logged
+  const handlePinSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const pin = pinInput.trim();
+    if (pin.length < MIN_PIN_LENGTH) {
+      setPinError(`PIN must be at least ${MIN_PIN_LENGTH} digits`);
+      return;
+    }
+    const hash = hashPin(eventId, pin);
+    if (coordinatorPinHash && hash !== coordinatorPinHash) {
+      setPinError('Wrong PIN');
+      return;
     }
 
-    setDoorCount(0);
-    setMessages([]);
-    
-    setShowResetView(false);
-    setResetInputText('');
+    const previousHolder = coordinatorDeviceId && coordinatorDeviceId !== deviceId ? coordinatorDeviceId : null;
+    setCoordinatorDeviceId(deviceId);
+    setCoordinatorPinHash(hash);
+    setOperatorName('Bout Coordinator');
+    setSelectedStations([]);
+    setShowPinModal(false);
+    setPinInput('');
+
+    await updateEventState({ coordinator_device_id: deviceId, coordinator_pin_hash: hash }, 'COORDINATOR');
+    if (previousHolder) {
+      const stillOnline = onlinePeers.some(p => p.device_id === previousHolder);
+      await postSystemMessage(
+        `Forced takeover: Bout Coordinator role claimed by ${deviceId} from ${previousHolder}${stillOnline ? ' (still online)' : ''}.`,
+        'coordinator_change'
+      );
+    }
+  };
+
+  const handleHandoff = async () => {
+    if (!isCoordinator || !handoffTarget) return;
+    const target = onlinePeers.find(p => p.device_id === handoffTarget);
+
+    setCoordinatorDeviceId(handoffTarget);
+    setOperatorName('');
+    setSelectedStations([]);
+    setHandoffTarget('');
     setShowNetworkModal(false);
+
+    await updateEventState({ coordinator_device_id: handoffTarget });
+    await postSystemMessage(
+      `Bout Coordinator handed off from ${deviceId} to ${handoffTarget}${target?.role ? ` (was ${target.role})` : ''}.`,
+      'coordinator_change'
+    );
   };
 
-  const handleClaimBC = () => {
-    setOperatorName('Bout Coordinator');
-    setSelectedStation(null);
+  const handlePinChange = async () => {
+    const pin = newPinInput.trim();
+    if (!isCoordinator || pin.length < MIN_PIN_LENGTH) return;
+    const hash = hashPin(eventId, pin);
+    setCoordinatorPinHash(hash);
+    setNewPinInput('');
+
+    await updateEventState({ coordinator_pin_hash: hash });
   };
 
   const handleRoleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -331,85 +3791,335 @@ const BoutCoordinatorApp = () => {
       handleClaimBC();
     } else {
       setOperatorName(role);
-      setSelectedStation(null);
+      setSelectedStations([]);
     }
   };
 
-  const handleRelease = () => {
+  const handleRelease = async () => {
+    const wasCoordinator = isCoordinator;
     setOperatorName('');
-    setSelectedStation(null);
+    setSelectedStations([]);
+
+    // Signing off as BC frees the role for the next PIN holder
+    if (wasCoordinator) {
+      setCoordinatorDeviceId(null);
+      await updateEventState({ coordinator_device_id: null });
+    }
   };
 
+  // The coordinator taps station cards to address a message to them
   const handleStationClick = (station: Station) => {
-    if (operatorName === 'Bout Coordinator') {
-      setSelectedStation(prev => prev === station ? null : station);
+    if (isCoordinator) {
+      setSelectedStations(prev => prev.includes(station) ? prev.filter(s => s !== station) : [...prev, station]);
     }
   };
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!inputText.trim()) return;
-
-    const now = new Date();
-    const hours = now.getHours();
-    const minutes = now.getMinutes();
-    const ampm = hours >= 12 ? 'PM' : 'AM';
-    const hour12 = hours % 12 || 12; 
-    const timeStr = `${hour12}:${minutes.toString().padStart(2, '0')} ${ampm}`;
+  // Typed and quick messages both go out with the current recipients and ACK toggle
+  const postMessage = async (text: string, urgent: boolean) => {
+    const now = new Date(serverNow());
+    const timeStr = formatMessageTime(now);
 
-    let sender: Station;
-    if (operatorName === 'Bout Coordinator') {
-        sender = selectedStation || 'COORDINATOR';
-    } else {
-        sender = operatorName as Station;
-    }
+    const sender: Station = operatorName === 'Bout Coordinator' ? 'COORDINATOR' : (operatorName as Station);
 
+    // created_at is set here so queued messages keep the time they were written
     const newMessage = {
+      event_id: eventId,
       time: timeStr,
       station: sender,
-      text: inputText.trim()
+      text,
+      created_at: now.toISOString(),
+      needs_ack: needsAck,
+      urgent,
+      recipients: selectedStations.length > 0 ? selectedStations : null
     };
 
+    setNeedsAck(false);
+    setIsUrgent(false);
+    setSelectedStations([]);
+
+    await queueWrite({ table: 'messages', action: 'insert', payload: newMessage });
+  };
+
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inputText.trim()) return;
+    const text = inputText.trim();
     setInputText('');
+    await postMessage(text, isUrgent);
+  };
 
-    if (supabaseClient) {
-       await supabaseClient
-        .from('messages')
-        .insert([newMessage]);
+  // Templates without blanks send on the first tap
+  const handleQuickMessage = async (template: QuickMessage) => {
+    if (!isAssigned) return;
+    if (getTemplateParams(template.text).length > 0) {
+      setQuickFill({ template, values: {} });
+      return;
     }
+    setQuickFill(null);
+    await postMessage(template.text, template.urgent || isUrgent);
+  };
+
+  const handleQuickFillSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quickFill) return;
+    const { template, values } = quickFill;
+    setQuickFill(null);
+    await postMessage(fillTemplate(template.text, values), template.urgent || isUrgent);
+  };
+
+  const handleAck = async (msg: Message) => {
+    if (!isAssigned) return;
+
+    const ack: MessageAck = {
+      message_id: msg.id,
+      event_id: eventId,
+      station: myStation,
+      device_id: deviceId,
+      created_at: new Date(serverNow()).toISOString()
+    };
+    setAcks(prev => [...prev, ack]);
+
+    await queueWrite({ table: 'message_acks', action: 'insert', payload: ack });
   };
 
   const handleWifiSave = async () => {
-    if (supabaseClient) {
-      // Save global WiFi settings to DB instead of local storage
-      await supabaseClient
-        .from('event_state')
-        .update({ wifi_ssid: wifiSSID, wifi_pass: wifiPass })
-        .eq('id', 'global_event');
+    if (!isCoordinator) return;
+    // Both fields save on blur, so tabbing through them shouldn't rewrite the row
+    const saved = eventStateRef.current;
+    if (wifiSSID === saved.wifi_ssid && wifiPass === saved.wifi_pass) return;
+    // Save global WiFi settings to DB instead of local storage
+    await updateEventState({ wifi_ssid: wifiSSID, wifi_pass: wifiPass });
+  };
+
+  // --- EXPORT ---
+
+  const fetchEventHistory = async (source: SyncBackend) => {
+    const [allMessages, stateChanges] = await Promise.all([
+      fetchAllRows<Message>(source, 'messages', {
+        filter: { event_id: eventId },
+        order: [{ column: 'id', ascending: true }]
+      }),
+      fetchAllRows<StateChange>(source, 'state_changes', {
+        filter: { event_id: eventId },
+        order: [{ column: 'created_at', ascending: true }]
+      })
+    ]);
+    return { allMessages, stateChanges };
+  };
+
+  const handleExport = async (format: 'log-csv' | 'attendance-csv' | 'sales-csv' | 'cash-csv' | 'incidents-csv' | 'json') => {
+    if (!backend) return;
+    setExportError('');
+
+    try {
+      const { allMessages, stateChanges } = await fetchEventHistory(backend);
+      const attendance = buildAttendanceSeries(doorTaps, stateChanges);
+      const stamp = new Date().toISOString().slice(0, 10);
+
+      if (format === 'json') {
+        downloadFile(`${eventId}-${stamp}.json`, JSON.stringify({
+          exported_at: new Date().toISOString(),
+          event: currentEvent || { id: eventId },
+          capacity,
+          door_tally: doorTally,
+          gross_attendance: grossAttendance,
+          messages: allMessages.map(m => ({ ...m, created_at: new Date(m.created_at).toISOString() })),
+          attendance,
+          tickets,
+          ticket_checkins: ticketCheckins,
+          inventory_items: inventoryItems,
+          inventory_moves: inventoryMoves,
+          sales,
+          station_closeouts: closeouts,
+          incidents,
+          state_changes: stateChanges,
+          archives
+        }, null, 2), 'application/json');
+        return;
+      }
+
+      if (format === 'incidents-csv') {
+        downloadFile(`${eventId}-incidents-${stamp}.csv`, toCsv(
+          incidents.map(i => ({
+            ...i,
+            minutes_to_respond: minutesBetween(i.created_at, i.responding_at),
+            minutes_to_resolve: minutesBetween(i.created_at, i.resolved_at)
+          })),
+          ['created_at', 'category', 'severity', 'location', 'description', 'reported_by', 'assignee', 'status',
+            'responding_at', 'minutes_to_respond', 'resolved_at', 'minutes_to_resolve', 'resolution', 'id']
+        ), 'text/csv');
+        return;
+      }
+
+      if (format === 'sales-csv') {
+        downloadFile(`${eventId}-sales-${stamp}.csv`, toCsv(
+          sales.map(sale => ({ ...sale, amount: (sale.amount / 100).toFixed(2), voided: sale.voided_at ? 'yes' : '' })),
+          ['created_at', 'station', 'method', 'amount', 'voided', 'device_id', 'id']
+        ), 'text/csv');
+        return;
+      }
+
+      if (format === 'cash-csv') {
+        const dollars = (cents: number | null | undefined) => cents === null || cents === undefined ? '' : (cents / 100).toFixed(2);
+        downloadFile(`${eventId}-cash-${stamp}.csv`, toCsv(
+          salesReport.map(r => ({
+            station: r.station.name,
+            transactions: r.count,
+            opening_float: dollars(r.closeout?.opening_float),
+            cash_sales: dollars(r.cash),
+            expected_cash: dollars(r.expectedCash),
+            counted_cash: dollars(r.closeout?.counted_cash),
+            cash_variance: dollars(r.cashVariance),
+            card_sales: dollars(r.card),
+            counted_card: dollars(r.closeout?.counted_card),
+            card_variance: dollars(r.cardVariance),
+            closed_at: r.closeout?.created_at || '',
+            note: r.closeout?.note || ''
+          })),
+          ['station', 'transactions', 'opening_float', 'cash_sales', 'expected_cash', 'counted_cash', 'cash_variance',
+            'card_sales', 'counted_card', 'card_variance', 'closed_at', 'note']
+        ), 'text/csv');
+        return;
+      }
+
+      if (format === 'log-csv') {
+        downloadFile(`${eventId}-log-${stamp}.csv`, toCsv(
+          allMessages.map(m => ({ ...m, created_at: new Date(m.created_at).toISOString() })),
+          ['id', 'created_at', 'time', 'station', 'text']
+        ), 'text/csv');
+        return;
+      }
+
+      downloadFile(`${eventId}-attendance-${stamp}.csv`, toCsv(
+        attendance,
+        ['timestamp', 'type', 'door', 'kind', 'delta', 'occupancy', 'capacity', 'device_id']
+      ), 'text/csv');
+    } catch (err) {
+      console.error(err);
+      setExportError(errorMessage(err) || 'Export failed');
     }
   };
 
   const getLastMessage = (station: Station) => {
     const stationMsgs = messages.filter(m => m.station === station);
-    return stationMsgs.length > 0 ? stationMsgs[stationMsgs.length - 1] : null;
+    const live = stationMsgs.length > 0 ? stationMsgs[stationMsgs.length - 1] : null;
+    const loaded = lastMessages[station] ?? null;
+    return live && (!loaded || live.id > loaded.id) ? live : loaded;
   };
 
+  const pendingCount = outboxOps.filter(op => op.status === 'pending').length;
+  const failedCount = outboxOps.filter(op => op.status === 'failed').length;
+  const queuedMessages = outboxOps.filter(op => op.table === 'messages' && op.action === 'insert' && op.payload.event_id === eventId);
+  const currentEvent = events.find(e => e.id === eventId);
+  const activeEvents = events.filter(e => !e.archived);
+  const archivedEvents = events.filter(e => e.archived);
+
+  // Concurrent exits can briefly push the sum below zero
+  const doorCount = Math.max(0, doorTaps.reduce((sum, tap) => sum + tap.delta, 0));
+  const doorTally = tallyDoors(doorTaps);
+  const grossAttendance = Object.values(doorTally).reduce((sum, door) => sum + door.entries, 0);
+  const undoableTap = findUndoableTap(doorTaps, deviceId);
+  const ticketSummary = reconcileTickets(tickets, ticketCheckins);
+  const stock = stockLevels(inventoryItems, inventoryMoves);
+  const activeItems = inventoryItems.filter(i => !i.archived);
+  // Door entries with no ticket scan behind them: walk-ups, staff, manual taps
+  const unscannedEntries = Math.max(0, grossAttendance - ticketSummary.admitted);
   const occupancy = Math.min(100, Math.round((doorCount / (capacity || 1)) * 100));
   const isOverCapacity = doorCount > capacity;
+  // The banner clears itself once the room drops back under the alert level
+  const showCapacityAlert = !!activeAlert && (doorCount / (capacity || 1)) * 100 >= (activeAlert.alert_level || 0);
   const isAssigned = operatorName.trim().length > 0;
-  const isCoordinator = operatorName === 'Bout Coordinator';
+  // The role only counts while the event still names this device as holder
+  const isCoordinator = operatorName === 'Bout Coordinator' && coordinatorDeviceId === deviceId;
+  const otherCoordinatorOnline = !!coordinatorDeviceId && coordinatorDeviceId !== deviceId
+    && onlinePeers.some(p => p.device_id === coordinatorDeviceId);
+  const isTakeover = !!coordinatorDeviceId && coordinatorDeviceId !== deviceId;
+
+  // The identity this device acks as
+  const myStation: Station = isCoordinator ? 'COORDINATOR' : (operatorName as Station);
+  const sellsEntry = !isCoordinator && stations.some(st => st.code === operatorName && isAdmissionsStation(st));
+
+  const inboxMessages = isAssigned ? withKeptMessages(messages, inboxBacklog).filter(m => isAddressedTo(m, myStation)) : [];
+  const unreadCount = inboxMessages.filter(m => m.created_at > inboxReadAt).length;
+  const logFiltered = isLogFiltered(logFilter);
+  const logQuery = logFilterQuery(logFilter, myStation);
+  const liveIds = new Set(messages.map(m => m.id));
+  const loggedMessages = [...history.filter(m => !liveIds.has(m.id)), ...messages]
+    .sort((a, b) => a.id - b.id)
+    .filter(m => matchesFilter(m, logQuery));
+  const visibleMessages = logView === 'inbox' ? loggedMessages.filter(m => isAddressedTo(m, myStation)) : loggedMessages;
+
+  const allAckRequests = withKeptMessages(messages, ackRequests).filter(m => m.needs_ack).sort((a, b) => a.id - b.id);
+  const openAckRequests = allAckRequests.filter(m => isAwaitingAck(m, acks));
+  const openIncidents = sortOpenIncidents(incidents);
+  const awaitingMyAck = isAssigned
+    ? allAckRequests.filter(m => m.needs_ack && m.station !== myStation && !acks.some(a => a.message_id === m.id && a.station === myStation))
+    : [];
 
   let currentSender = '';
   if (!isAssigned) {
     currentSender = 'ROLE';
   } else {
-    currentSender = isCoordinator ? (selectedStation || 'COORDINATOR') : (operatorName as Station);
+    currentSender = isCoordinator ? 'COORDINATOR' : (operatorName as Station);
   }
 
+  const syncProblems = [...(realtimeIssue ? [realtimeIssue] : []), ...Object.entries(loadErrors).map(([what, error]) => `${what} didn't load: ${error}`)];
+  const setupSql = (setupChecks || []).filter(check => check.sql).map(check => `-- ${check.label}\n${check.sql}`).join('\n\n');
+
+  const myQuickMessages = isAssigned
+    ? quickMessages.filter(qm => !qm.station || qm.station === currentSender)
+    : [];
+
+  const getStation = (code: string) => stations.find(st => st.code === code);
+
   const getShortSender = (sender: string) => {
     if (sender === 'COORDINATOR') return 'BC';
-    if (sender === 'PRODUCTION') return 'PROD';
-    return sender;
+    return getStation(sender)?.short || sender;
+  };
+
+  // One row per device (presence can hold several entries for a key), BC
+  // first and then in station order
+  const roleRank = (role: string) =>
+    role === 'Bout Coordinator' ? -1 : role ? (getStation(role)?.order ?? stations.length) : stations.length + 1;
+  const rosterPeers = onlinePeers
+    .filter(p => !onlinePeers.some(q => q.device_id === p.device_id && (q.heartbeat_at || '') > (p.heartbeat_at || '')))
+    .filter((p, i, all) => all.findIndex(q => q.device_id === p.device_id) === i)
+    .sort((a, b) => roleRank(a.role) - roleRank(b.role));
+  const livePeers = rosterPeers.filter(p => !isStalePresence(p, presenceNow));
+  const unstaffedStations = isConnected ? stations.filter(st => !livePeers.some(p => p.role === st.code)) : [];
+  const handoffCandidates = rosterPeers.filter(p => p.device_id !== deviceId);
+
+  const timeline = buildTimeline(runOfShow);
+  const cueSchedule = scheduleCues(runOfShow, timeline);
+  const nextSegment = timeline.find(t => t.at > showNow) || null;
+  const currentSegment = [...timeline].reverse().find(t => t.at <= showNow) || null;
+  const cuePosterId = coordinatorDeviceId && livePeers.some(p => p.device_id === coordinatorDeviceId)
+    ? coordinatorDeviceId
+    : livePeers.map(p => p.device_id).sort()[0];
+  const isCuePoster = cuePosterId === deviceId;
+
+  // Stations manage their own stock; the BC can open any station's
+  const panelStation: Station = isCoordinator
+    ? (getStation(inventoryStation) ? inventoryStation : stations[0]?.code || '')
+    : (getStation(operatorName) ? operatorName : '');
+  const panelItems = activeItems.filter(i => i.station === panelStation);
+  const undoableMove = panelStation ? findUndoableMove(inventoryMoves, deviceId, panelStation) : null;
+  const salesReport = reconcileSales(stations, sales, closeouts);
+  const panelReport = salesReport.find(r => r.station.code === panelStation && isSalesStation(r.station));
+  const undoableSale = panelReport
+    ? sales.filter(s => s.station === panelStation && s.device_id === deviceId && !s.voided_at).pop() || null
+    : null;
+
+  // Built-in senders keep their badge classes; configured stations get their
+  // colour inline, and stations since removed from the event fall back to grey
+  const stationBadge = (code: string, base: string) => {
+    if (code === 'COORDINATOR' || code === 'SYSTEM' || code === 'ROLE') {
+      return { className: `${base} badge-${code.toLowerCase()}` };
+    }
+    const station = getStation(code);
+    return station
+      ? { className: `${base} badge-station`, style: stationVars(station) }
+      : { className: `${base} badge-role` };
   };
 
   // --- RENDER ---
@@ -420,6 +4130,20 @@ const BoutCoordinatorApp = () => {
         <div className="header-brand-row">
           <BcsLogo />
           <span className="brand-name">BOUT COORDINATOR SYSTEMS™</span>
+          {currentEvent && (
+            <span className={`event-name ${currentEvent.archived ? 'event-archived' : ''}`}>
+              {currentEvent.name || currentEvent.id}
+            </span>
+          )}
+          {(timeline.length > 0 || isCoordinator) && (
+            <button className="show-countdown" onClick={() => setShowSchedule(true)} title="Run of show">
+              {nextSegment ? (
+                <>{nextSegment.segment.label} <strong>{formatCountdown(nextSegment.at - showNow)}</strong></>
+              ) : currentSegment ? (
+                <>{currentSegment.segment.label} <strong>NOW</strong></>
+              ) : 'RUN OF SHOW'}
+            </button>
+          )}
         </div>
 
         {/* ROW 2: CONTROLS */}
@@ -428,22 +4152,22 @@ const BoutCoordinatorApp = () => {
             <div className="header-label">OPERATOR</div>
             {isAssigned ? (
               <div className="operator-display">
-                <span className={`operator-badge badge-${operatorName === 'Bout Coordinator' ? 'coordinator' : operatorName.toLowerCase()}`}>
-                  {operatorName === 'Bout Coordinator' ? 'BC' : operatorName.substring(0,2)}
+                <span {...stationBadge(operatorName === 'Bout Coordinator' ? 'COORDINATOR' : operatorName, 'operator-badge')}>
+                  {operatorName === 'Bout Coordinator' ? 'BC' : getShortSender(operatorName).substring(0,2)}
                 </span>
-                <span className="operator-name">{operatorName}</span>
+                <span className="operator-name">{getStation(operatorName)?.name || operatorName}</span>
                 <button className="btn-release" onClick={handleRelease} title="Sign Off">✕</button>
               </div>
             ) : (
               <div className="operator-actions">
                 <select className="role-select" onChange={handleRoleSelect} value="">
                   <option value="" disabled>Select Role...</option>
-                  <option value="COORDINATOR" disabled={otherCoordinatorOnline}>
-                    {otherCoordinatorOnline ? 'Bout Coordinator (Online)' : 'Bout Coordinator'}
+                  <option value="COORDINATOR">
+                    {otherCoordinatorOnline ? 'Bout Coordinator (Online, PIN takeover)' : 'Bout Coordinator'}
                   </option>
                   <option disabled>──────</option>
-                  {GRID_STATIONS.map(s => (
-                    <option key={s} value={s}>{s}</option>
+                  {stations.map(s => (
+                    <option key={s.code} value={s.code}>{s.name}</option>
                   ))}
                 </select>
               </div>
@@ -451,17 +4175,43 @@ const BoutCoordinatorApp = () => {
           </div>
           
           <div className="header-right-group">
-            <button 
-              className={`btn-network ${isConnected ? 'client' : ''}`}
-              onClick={() => setShowNetworkModal(true)}
-            >
-              <div className="net-icon"></div>
-              <div className="net-status">
-                {isConnected ? 'DB SYNC' : 'OFFLINE'}
-              </div>
-            </button>
+            <div className="header-sync-row">
+              {(pendingCount > 0 || failedCount > 0) && (
+                <button
+                  className={`outbox-pill ${failedCount > 0 ? 'outbox-failed' : 'outbox-pending'}`}
+                  onClick={() => setShowNetworkModal(true)}
+                  title="Unsynced changes"
+                >
+                  {failedCount > 0 ? `${failedCount} FAILED` : `${pendingCount} PENDING`}
+                </button>
+              )}
+              <button 
+                className={`btn-network ${isConnected ? 'client' : ''}`}
+                onClick={() => setShowNetworkModal(true)}
+              >
+                <div className="net-icon"></div>
+                <div className="net-status">
+                  {isConnected ? (syncProblems.length > 0 ? 'DB ERROR' : 'DB SYNC') : 'OFFLINE'}
+                </div>
+              </button>
+            </div>
 
             <div className="header-sub-controls">
+              {/* ROSTER BUTTON */}
+              <button
+                className={`btn-network btn-wifi btn-roster ${unstaffedStations.length > 0 ? 'roster-warning' : ''}`}
+                onClick={() => setShowRoster(true)}
+                title="Who is on which station"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"></path>
+                    <circle cx="9" cy="7" r="4"></circle>
+                    <path d="M23 21v-2a4 4 0 0 0-3-3.87"></path>
+                    <path d="M16 3.13a4 4 0 0 1 0 7.75"></path>
+                  </svg>
+                <span className="roster-count">{livePeers.length}</span>
+              </button>
+
               {/* WIFI BUTTON */}
               <button 
                 className="btn-network btn-wifi"
@@ -483,38 +4233,575 @@ const BoutCoordinatorApp = () => {
             </div>
           </div>
         </div>
-      </header>
+      </header>
+
+      {/* WIFI QR MODAL */}
+      {showWifiQr && (
+        <div className="modal-overlay">
+          <div className="modal modal-wifi">
+             <div className="modal-header">
+              <div className="header-brand-group">
+                <BcsLogo />
+                <span>{accessView === 'wifi' ? 'VENUE WIFI ACCESS' : 'VOLUNTEER JOIN'}</span>
+              </div>
+              <button className="btn-close" onClick={() => setShowWifiQr(false)}>✕</button>
+            </div>
+            <div className="log-tabs access-tabs">
+              <button className={`log-tab ${accessView === 'wifi' ? 'active' : ''}`} onClick={() => setAccessView('wifi')}>
+                WIFI
+              </button>
+              <button className={`log-tab ${accessView === 'join' ? 'active' : ''}`} onClick={() => setAccessView('join')}>
+                JOIN APP
+              </button>
+            </div>
+            <div className="modal-body wifi-body">
+              {accessView === 'join' ? (
+                <>
+                  <select className="role-select join-role-select" value={joinRole} onChange={(e) => setJoinRole(e.target.value)}>
+                    <option value="">Volunteer picks a station</option>
+                    {stations.map(st => (
+                      <option key={st.code} value={st.code}>{st.name}</option>
+                    ))}
+                  </select>
+                  <div className="wifi-qr-container">
+                    {joinQrDataUrl && <img src={joinQrDataUrl} alt="Join QR Code" className="qr-image" />}
+                  </div>
+                  <div className="wifi-details">
+                    <div className="wifi-label">Event</div>
+                    <div className="wifi-value">{currentEvent?.name || eventId}</div>
+                    <div className="wifi-label">Sync</div>
+                    <div className="wifi-value">{backendKind === 'local' ? (relayUrl.trim() || 'This device only') : 'Supabase'}</div>
+                    <div className="wifi-label">Station</div>
+                    <div className="wifi-value">{joinRole ? getStation(joinRole)?.name || joinRole : 'Picked on the phone'}</div>
+                  </div>
+                  {backendKind === 'local' && !relayUrl.trim() && (
+                    <div className="net-error">No relay URL is set, so phones that scan this will not sync with this device.</div>
+                  )}
+                </>
+              ) : wifiSSID ? (
+                <>
+                  <div className="wifi-qr-container">
+                    {qrDataUrl && <img src={qrDataUrl} alt="WiFi QR Code" className="qr-image" />}
+                  </div>
+                  <div className="wifi-details">
+                    <div className="wifi-label">Network</div>
+                    <div className="wifi-value">{wifiSSID}</div>
+                    <div className="wifi-label">Password</div>
+                    <div className="wifi-value">{wifiPass || '<No Password>'}</div>
+                  </div>
+                </>
+              ) : (
+                <div className="empty-log">
+                  No WiFi configured. Click "DB SYNC" to set up venue WiFi details.
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* ROSTER MODAL */}
+      {showRoster && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <div className="modal-header">
+              <div className="header-brand-group">
+                <BcsLogo />
+                <span>STATION ROSTER</span>
+              </div>
+              <button className="btn-close" onClick={() => setShowRoster(false)}>✕</button>
+            </div>
+            <div className="modal-body">
+              <div className="input-group">
+                <label>Your name (optional)</label>
+                <input
+                  type="text"
+                  className="input-config"
+                  placeholder="e.g. Sam"
+                  maxLength={30}
+                  value={volunteerName}
+                  onChange={(e) => setVolunteerName(e.target.value)}
+                />
+              </div>
+
+              {!isConnected && <div className="net-error">Not connected. The roster shows once the database syncs.</div>}
+
+              {unstaffedStations.length > 0 && (
+                <div className="roster-unstaffed">
+                  <span>NOBODY ON</span>
+                  {unstaffedStations.map(st => (
+                    <span key={st.code} {...stationBadge(st.code, 'compact-badge')}>{st.short}</span>
+                  ))}
+                </div>
+              )}
+
+              <div className="roster-list">
+                {rosterPeers.map(peer => {
+                  const stale = isStalePresence(peer, presenceNow);
+                  const role = peer.role === 'Bout Coordinator' ? 'COORDINATOR' : peer.role;
+                  const roleName = role === 'COORDINATOR' ? 'Bout Coordinator' : getStation(role)?.name || role || 'No role';
+                  return (
+                    <div key={peer.device_id} className={`roster-item ${stale ? 'roster-stale' : ''}`}>
+                      <span {...stationBadge(role || 'ROLE', 'compact-badge')}>{role ? getShortSender(role) : '—'}</span>
+                      <div className="roster-who">
+                        <span className="roster-name">
+                          {peer.name ? `${peer.name} · ${roleName}` : roleName}
+                          {peer.device_id === deviceId && ' (this device)'}
+                        </span>
+                        <span className="roster-meta">
+                          {peer.device_id} · since {formatClock(new Date(peer.online_at).getTime())} · seen {formatElapsed(presenceNow - new Date(peer.heartbeat_at || peer.online_at).getTime())} ago
+                        </span>
+                      </div>
+                      {stale && <span className="roster-flag">STALE</span>}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* TICKETS MODAL */}
+      {showTickets && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <div className="modal-header">
+              <div className="header-brand-group">
+                <BcsLogo />
+                <span>TICKET CHECK-IN</span>
+              </div>
+              <button className="btn-close" onClick={() => setShowTickets(false)}>✕</button>
+            </div>
+            <div className="modal-body">
+              <div className="config-section">
+                <div className="section-title">RECONCILIATION</div>
+                <div className="ticket-stats">
+                  <div className="door-tally">
+                    <span className="door-tally-name">On list</span>
+                    <span>{ticketSummary.listed}</span>
+                    <span>{ticketSummary.comps} comp</span>
+                  </div>
+                  <div className="door-tally">
+                    <span className="door-tally-name">Arrived</span>
+                    <span className="door-tally-in">{ticketSummary.arrived}</span>
+                  </div>
+                  <div className="door-tally">
+                    <span className="door-tally-name">To come</span>
+                    <span>{ticketSummary.listed - ticketSummary.arrived}</span>
+                  </div>
+                  <div className="door-tally" title="Door entries with no ticket scan behind them">
+                    <span className="door-tally-name">No scan</span>
+                    <span>{unscannedEntries}</span>
+                  </div>
+                </div>
+                {ticketSummary.tiers.length > 1 && (
+                  <div className="ticket-tiers">
+                    {ticketSummary.tiers.map(tier => (
+                      <div key={tier.tier} className="ticket-tier">
+                        <span>{tier.tier || 'No tier'}</span>
+                        <span>{tier.arrived} / {tier.listed}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {ticketSummary.doubleEntries.length > 0 && (
+                  <div className="ticket-doubles">
+                    <div className="net-error">Checked in more than once</div>
+                    {ticketSummary.doubleEntries.map(({ code, ticket, checkins }) => (
+                      <div key={code} className="ticket-tier">
+                        <span>{code}{ticket?.name ? ` · ${ticket.name}` : ''}</span>
+                        <span>{checkins.map(c => `${formatClock(new Date(c.created_at).getTime())} ${c.door}`).join(', ')}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {isCoordinator && (
+                <div className="config-section">
+                  <div className="section-title">IMPORT LIST</div>
+                  <p className="net-desc">CSV with a header row. Columns: code, name, tier, comp (yes / no). Codes already on the list are skipped.</p>
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    className="input-config"
+                    onChange={handleTicketImport}
+                    disabled={!isConnected}
+                  />
+                  {ticketImportNote && <div className="net-desc">{ticketImportNote}</div>}
+                  {ticketImportError && <div className="net-error">{ticketImportError}</div>}
+                </div>
+              )}
+
+              {ticketCheckins.length > 0 && (
+                <div className="net-section">
+                  <div className="section-title">RECENT CHECK-INS</div>
+                  <div className="roster-list">
+                    {ticketCheckins.slice(-20).reverse().map(c => {
+                      const ticket = tickets.find(t => t.code === c.code);
+                      return (
+                        <div key={c.id} className={`roster-item ${c.voided_at ? 'roster-stale' : ''}`}>
+                          <div className="roster-who">
+                            <span className="roster-name">{ticket?.name ? `${c.code} · ${ticket.name}` : c.code}</span>
+                            <span className="roster-meta">{formatClock(new Date(c.created_at).getTime())} · {c.door} door · {c.device_id}</span>
+                          </div>
+                          {c.voided_at && <span className="roster-flag">UNDONE</span>}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* INCIDENT REPORT MODAL */}
+      {incidentDraft && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <div className="modal-header">
+              <div className="header-brand-group">
+                <BcsLogo />
+                <span>REPORT INCIDENT</span>
+              </div>
+              <button className="btn-close" onClick={() => setIncidentDraft(null)}>✕</button>
+            </div>
+            <form className="modal-body" onSubmit={handleReportIncident}>
+              <div className="input-group">
+                <label>Category</label>
+                <div className="door-select">
+                  {INCIDENT_CATEGORIES.map(category => (
+                    <button
+                      key={category}
+                      type="button"
+                      className={`door-chip ${incidentDraft.category === category ? 'active' : ''}`}
+                      onClick={() => setIncidentDraft({ ...incidentDraft, category })}
+                    >
+                      {category}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="input-group">
+                <label>Severity</label>
+                <div className="door-select">
+                  {INCIDENT_SEVERITIES.map(severity => (
+                    <button
+                      key={severity}
+                      type="button"
+                      className={`door-chip incident-${severity.toLowerCase()} ${incidentDraft.severity === severity ? 'active' : ''}`}
+                      onClick={() => setIncidentDraft({ ...incidentDraft, severity })}
+                    >
+                      {severity}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="input-group">
+                <label>Location</label>
+                <input
+                  type="text"
+                  className="input-config"
+                  placeholder="e.g. turn 3, bleachers B"
+                  value={incidentDraft.location}
+                  onChange={(e) => setIncidentDraft({ ...incidentDraft, location: e.target.value })}
+                />
+              </div>
+              <div className="input-group">
+                <label>What happened</label>
+                <input
+                  type="text"
+                  className="input-config"
+                  placeholder="e.g. skater down, conscious"
+                  value={incidentDraft.description}
+                  onChange={(e) => setIncidentDraft({ ...incidentDraft, description: e.target.value })}
+                  autoFocus
+                />
+              </div>
+              <button type="submit" className="btn-join" disabled={!incidentDraft.description.trim()}>
+                REPORT AS {getShortSender(myStation)}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* INCIDENT LOG MODAL */}
+      {showIncidentLog && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <div className="modal-header">
+              <div className="header-brand-group">
+                <BcsLogo />
+                <span>INCIDENT LOG</span>
+              </div>
+              <button className="btn-close" onClick={() => setShowIncidentLog(false)}>✕</button>
+            </div>
+            <div className="modal-body">
+              {incidents.length === 0 && <div className="empty-log">No incidents reported for this event.</div>}
+              <div className="roster-list">
+                {[...incidents].reverse().map(incident => (
+                  <div key={incident.id} className={`incident-item incident-${incident.severity.toLowerCase()}`}>
+                    <div className="incident-main">
+                      <div className="incident-title">
+                        <strong>{incident.category}</strong> · {incident.severity}
+                        {incident.location && ` · ${incident.location}`}
+                        <span className="incident-status">{incident.status}</span>
+                      </div>
+                      <div className="incident-desc">{incident.description}</div>
+                      <div className="roster-meta">
+                        Reported {formatClock(new Date(incident.created_at).getTime())} by {getShortSender(incident.reported_by)}
+                        {incident.responding_at && ` · response ${minutesBetween(incident.created_at, incident.responding_at)} min`}
+                        {incident.resolved_at && ` · resolved ${minutesBetween(incident.created_at, incident.resolved_at)} min`}
+                        {incident.assignee && ` · ${getShortSender(incident.assignee)}`}
+                      </div>
+                      {incident.resolution && <div className="incident-desc">{incident.resolution}</div>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="outbox-actions">
+                <button className="btn-disconnect" onClick={() => handleExport('incidents-csv')}>DOWNLOAD CSV</button>
+              </div>
+              {exportError && <div className="net-error">{exportError}</div>}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* RUN OF SHOW MODAL */}
+      {showSchedule && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <div className="modal-header">
+              <div className="header-brand-group">
+                <BcsLogo />
+                <span>RUN OF SHOW</span>
+              </div>
+              <button className="btn-close" onClick={() => { setShowSchedule(false); setShowDraft(null); }}>✕</button>
+            </div>
+            <div className="modal-body">
+              {showDraft ? (
+                <>
+                  <div className="input-group">
+                    <label>Show date</label>
+                    <input
+                      type="date"
+                      className="input-config"
+                      value={showDraft.date}
+                      onChange={(e) => setShowDraft({ ...showDraft, date: e.target.value })}
+                    />
+                  </div>
+
+                  <div className="config-section">
+                    <div className="section-title">SEGMENTS</div>
+                    <div>
+                      {showDraft.segments.map(seg => (
+                        <div key={seg.id} className="station-config-row">
+                          <input
+                            type="time"
+                            className="input-config show-time-input"
+                            value={seg.time}
+                            onChange={(e) => patchDraftSegment(seg.id, { time: e.target.value })}
+                          />
+                          <input
+                            type="text"
+                            className="input-config"
+                            placeholder="Segment, e.g. Halftime"
+                            value={seg.label}
+                            onChange={(e) => patchDraftSegment(seg.id, { label: e.target.value })}
+                          />
+                          <button className="btn-undo-tap" onClick={() => removeDraftSegment(seg.id)}>✕</button>
+                        </div>
+                      ))}
+                    </div>
+                    <button className="btn-undo-tap show-add" onClick={addDraftSegment}>+ SEGMENT</button>
+                  </div>
+
+                  <div className="config-section">
+                    <div className="section-title">CUES</div>
+                    {showDraft.cues.map(cue => (
+                      <div key={cue.id} className="show-cue-editor">
+                        <div className="station-config-row">
+                          <input
+                            type="number"
+                            className="input-config show-offset-input"
+                            value={cue.offset}
+                            title="Minutes from the segment start, negative for before"
+                            onChange={(e) => patchDraftCue(cue.id, { offset: parseInt(e.target.value) || 0 })}
+                          />
+                          <span className="show-offset-label">min from</span>
+                          <select
+                            className="role-select"
+                            value={cue.segment_id}
+                            onChange={(e) => patchDraftCue(cue.id, { segment_id: e.target.value })}
+                          >
+                            {showDraft.segments.map(seg => (
+                              <option key={seg.id} value={seg.id}>{seg.label || 'Untitled'}</option>
+                            ))}
+                          </select>
+                          <button
+                            className={`btn-undo-tap ${cue.urgent ? 'active' : ''}`}
+                            onClick={() => patchDraftCue(cue.id, { urgent: !cue.urgent })}
+                            title="Post as urgent"
+                          >
+                            !
+                          </button>
+                          <button className="btn-undo-tap" onClick={() => setShowDraft({ ...showDraft, cues: showDraft.cues.filter(c => c.id !== cue.id) })}>✕</button>
+                        </div>
+                        <input
+                          type="text"
+                          className="input-config"
+                          placeholder="e.g. BEER prep for the rush"
+                          value={cue.text}
+                          onChange={(e) => patchDraftCue(cue.id, { text: e.target.value })}
+                        />
+                        <div className="log-chips">
+                          {stations.map(st => (
+                            <button
+                              key={st.code}
+                              className={`log-chip ${cue.recipients.includes(st.code) ? 'active' : ''}`}
+                              onClick={() => patchDraftCue(cue.id, {
+                                recipients: cue.recipients.includes(st.code)
+                                  ? cue.recipients.filter(code => code !== st.code)
+                                  : [...cue.recipients, st.code]
+                              })}
+                            >
+                              {st.short}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                    <button className="btn-undo-tap show-add" onClick={addDraftCue} disabled={showDraft.segments.length === 0}>+ CUE</button>
+                    <div className="net-desc">Cues with no stations picked go to everyone.</div>
+                  </div>
+
+                  <div className="reset-row">
+                    <button className="btn-join" onClick={handleScheduleSave} disabled={!showDraft.date}>SAVE SCHEDULE</button>
+                    <button className="btn-disconnect" onClick={() => setShowDraft(null)}>CANCEL</button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  {timeline.length === 0 && <div className="empty-log">No schedule for this event yet.</div>}
+                  <div className="show-timeline">
+                    {timeline.map(({ segment, at }) => {
+                      const state = currentSegment?.segment.id === segment.id ? 'now' : at > showNow ? 'upcoming' : 'past';
+                      return (
+                        <div key={segment.id} className={`show-segment show-${state}`}>
+                          <div className="show-segment-row">
+                            <span className="show-time">{formatClock(at)}</span>
+                            <span className="show-label">{segment.label}</span>
+                            <span className="show-eta">{state === 'now' ? 'NOW' : state === 'upcoming' ? formatCountdown(at - showNow) : ''}</span>
+                          </div>
+                          {cueSchedule.filter(c => c.segment.id === segment.id).map(({ cue, at: cueAt }) => (
+                            <div key={cue.id} className={`show-cue ${cueAt <= showNow ? 'show-cue-done' : ''}`}>
+                              <span className="show-offset-label">{describeOffset(cue.offset)}</span>
+                              {cue.recipients.map(code => (
+                                <span key={code} {...stationBadge(code, 'compact-badge')}>{getShortSender(code)}</span>
+                              ))}
+                              <span className="show-cue-text">{cue.text}</span>
+                              {cue.urgent && <span className="roster-flag">!</span>}
+                            </div>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="net-desc">
+                    {clockSynced ? 'Countdowns follow the server clock.' : 'Server clock not reached yet; countdowns follow this device.'}
+                  </div>
+                  {isCoordinator && <button className="btn-join" onClick={handleEditSchedule}>EDIT SCHEDULE</button>}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
 
-      {/* WIFI QR MODAL */}
-      {showWifiQr && (
+      {/* SALES REPORT MODAL */}
+      {showSalesReport && (
         <div className="modal-overlay">
-          <div className="modal modal-wifi">
-             <div className="modal-header">
+          <div className="modal">
+            <div className="modal-header">
               <div className="header-brand-group">
                 <BcsLogo />
-                <span>VENUE WIFI ACCESS</span>
+                <span>CASH RECONCILIATION</span>
               </div>
-              <button className="btn-close" onClick={() => setShowWifiQr(false)}>✕</button>
+              <button className="btn-close" onClick={() => setShowSalesReport(false)}>✕</button>
             </div>
-            <div className="modal-body wifi-body">
-              {wifiSSID ? (
-                <>
-                  <div className="wifi-qr-container">
-                    {qrDataUrl && <img src={qrDataUrl} alt="WiFi QR Code" className="qr-image" />}
+            <div className="modal-body">
+              {salesReport.length === 0 && <div className="empty-log">No sales stations. Mark one with $ in the station editor.</div>}
+              {salesReport.map(r => (
+                <div key={r.station.code} className="config-section" style={stationVars(r.station)}>
+                  <div className="sales-report-title">
+                    <span {...stationBadge(r.station.code, 'compact-badge')}>{r.station.short}</span>
+                    <span>{r.count} sales</span>
+                    <span className="roster-meta">
+                      {r.closeout ? `closed ${formatClock(new Date(r.closeout.created_at).getTime())}` : 'not closed out'}
+                    </span>
                   </div>
-                  <div className="wifi-details">
-                    <div className="wifi-label">Network</div>
-                    <div className="wifi-value">{wifiSSID}</div>
-                    <div className="wifi-label">Password</div>
-                    <div className="wifi-value">{wifiPass || '<No Password>'}</div>
+                  <div className="sales-report-grid">
+                    <span></span><span>EXPECTED</span><span>COUNTED</span><span>VARIANCE</span>
+                    <span>Cash</span>
+                    <span title={r.closeout ? `${formatMoney(r.cash)} sales + ${formatMoney(r.closeout.opening_float)} float` : undefined}>{formatMoney(r.expectedCash)}</span>
+                    <span>{r.closeout ? formatMoney(r.closeout.counted_cash) : '—'}</span>
+                    <span className={r.cashVariance ? 'variance-off' : ''}>{r.cashVariance === null ? '—' : formatVariance(r.cashVariance)}</span>
+                    <span>Card</span>
+                    <span>{formatMoney(r.card)}</span>
+                    <span>{r.closeout ? formatMoney(r.closeout.counted_card) : '—'}</span>
+                    <span className={r.cardVariance ? 'variance-off' : ''}>{r.cardVariance === null ? '—' : formatVariance(r.cardVariance)}</span>
                   </div>
-                </>
-              ) : (
-                <div className="empty-log">
-                  No WiFi configured. Click "DB SYNC" to set up venue WiFi details.
+                  {r.closeout?.note && <div className="net-desc">{r.closeout.note}</div>}
                 </div>
-              )}
+              ))}
+              <div className="outbox-actions">
+                <button className="btn-disconnect" onClick={() => handleExport('cash-csv')}>DOWNLOAD CSV</button>
+              </div>
+              {exportError && <div className="net-error">{exportError}</div>}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* COORDINATOR PIN MODAL */}
+      {showPinModal && (
+        <div className="modal-overlay">
+          <div className="modal">
+            <div className="modal-header">
+              <div className="header-brand-group">
+                <BcsLogo />
+                <span>BOUT COORDINATOR</span>
+              </div>
+              <button className="btn-close" onClick={() => setShowPinModal(false)}>✕</button>
             </div>
+            <form className="modal-body" onSubmit={handlePinSubmit}>
+              <div className="net-desc">
+                {!coordinatorPinHash
+                  ? 'No coordinator PIN is set for this event yet. Choose one now; it is needed to claim the role again.'
+                  : isTakeover
+                    ? `Device ${coordinatorDeviceId} holds the role${otherCoordinatorOnline ? ' and is online' : ''}. Entering the PIN takes over and is logged.`
+                    : 'Enter the coordinator PIN for this event.'}
+              </div>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoFocus
+                className="input-config"
+                placeholder={coordinatorPinHash ? 'PIN' : `New PIN (${MIN_PIN_LENGTH}+ digits)`}
+                value={pinInput}
+                onChange={(e) => { setPinInput(e.target.value); setPinError(''); }}
+              />
+              {!isConnected && <div className="net-error">Connect to the database first so the PIN can be checked.</div>}
+              {pinError && <div className="net-error">{pinError}</div>}
+              <button type="submit" className="btn-join" disabled={!isConnected || !pinInput.trim()}>
+                {isTakeover ? 'TAKE OVER' : 'CLAIM ROLE'}
+              </button>
+            </form>
           </div>
         </div>
       )}
@@ -535,6 +4822,7 @@ const BoutCoordinatorApp = () => {
               {/* WIFI SECTION */}
               <div className="config-section">
                 <div className="section-title">VENUE WIFI SETTINGS</div>
+                {!isCoordinator && <div className="net-desc">Only the Bout Coordinator can change venue settings.</div>}
                 <div className="input-group">
                   <label>SSID (Network Name)</label>
                   <input 
@@ -543,6 +4831,7 @@ const BoutCoordinatorApp = () => {
                     value={wifiSSID}
                     onChange={(e) => setWifiSSID(e.target.value)}
                     onBlur={handleWifiSave}
+                    disabled={!isCoordinator}
                     placeholder="e.g. RollerDerbyGuest"
                   />
                 </div>
@@ -554,83 +4843,545 @@ const BoutCoordinatorApp = () => {
                     value={wifiPass}
                     onChange={(e) => setWifiPass(e.target.value)}
                     onBlur={handleWifiSave}
+                    disabled={!isCoordinator}
                     placeholder="WPA2 Password"
                   />
                 </div>
               </div>
 
+              {/* CAPACITY ALERTS */}
+              <div className="config-section">
+                <div className="section-title">CAPACITY ALERTS</div>
+                <div className="input-group">
+                  <label>Warning levels (% of capacity)</label>
+                  <input
+                    type="text"
+                    className="input-config"
+                    value={alertLevelsInput}
+                    onChange={(e) => setAlertLevelsInput(e.target.value)}
+                    onBlur={handleAlertLevelsSave}
+                    disabled={!isCoordinator}
+                    placeholder="e.g. 80, 95, 100"
+                  />
+                </div>
+              </div>
+
+              {/* NOTIFICATIONS SECTION */}
+              {isAssigned && (
+                <div className="config-section">
+                  <div className="section-title">NOTIFICATIONS</div>
+                  <div className="net-desc">
+                    For {getShortSender(myStation)} on this device: messages sent to you, BC announcements, urgent posts and capacity alerts.
+                  </div>
+                  {notifyPermission === 'unsupported' && (
+                    <div className="net-error">This browser can't show notifications; chime and vibration still work while the app is open.</div>
+                  )}
+                  {notifyPermission === 'denied' && (
+                    <div className="net-error">Notifications are blocked for this site in the browser settings.</div>
+                  )}
+                  {notifyPermission === 'default' && (
+                    <button className="btn-join" onClick={handleEnableNotifications}>ENABLE NOTIFICATIONS</button>
+                  )}
+                  <div className="log-chips">
+                    <button className={`log-chip ${notifyPrefs.notify ? 'active' : ''}`} onClick={() => handleNotifyPrefsChange({ notify: !notifyPrefs.notify })}>
+                      NOTIFY
+                    </button>
+                    <button className={`log-chip ${notifyPrefs.chime ? 'active' : ''}`} onClick={() => handleNotifyPrefsChange({ chime: !notifyPrefs.chime })}>
+                      CHIME
+                    </button>
+                    <button className={`log-chip ${notifyPrefs.vibrate ? 'active' : ''}`} onClick={() => handleNotifyPrefsChange({ vibrate: !notifyPrefs.vibrate })}>
+                      VIBRATE
+                    </button>
+                    <button className={`log-chip ${notifyPrefs.everything ? 'active' : ''}`} onClick={() => handleNotifyPrefsChange({ everything: !notifyPrefs.everything })}>
+                      ALL MESSAGES
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* AUDIT TRAIL SECTION */}
+              {isConnected && (
+                <div className="config-section">
+                  <div className="section-title">AUDIT TRAIL</div>
+                  {auditEntries === null ? (
+                    <>
+                      <div className="net-desc">Who changed capacity, WiFi, stations and the other event settings, and who corrected the door count.</div>
+                      <button className="btn-disconnect" onClick={loadAuditTrail}>VIEW AUDIT TRAIL</button>
+                    </>
+                  ) : (
+                    <>
+                      {auditEntries.length === 0 ? (
+                        <div className="empty-log">No changes recorded yet</div>
+                      ) : (
+                        <div className="roster-list">
+                          {auditEntries.map(entry => (
+                            <div key={entry.id} className="roster-item">
+                              <div className="roster-who">
+                                <span className="roster-name">{entry.label}: {entry.from} → {entry.to}</span>
+                                <span className="roster-meta">
+                                  {formatClock(new Date(entry.at).getTime())} · {entry.role ? getShortSender(entry.role) : 'No role'} · {entry.device_id}
+                                </span>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <div className="outbox-actions">
+                        <button className="btn-disconnect" onClick={loadAuditTrail}>REFRESH</button>
+                        <button className="btn-disconnect" onClick={() => setAuditEntries(null)}>CLOSE</button>
+                      </div>
+                    </>
+                  )}
+                  {auditError && <div className="net-error">{auditError}</div>}
+                </div>
+              )}
+
+              {/* OUTBOX SECTION */}
+              {outboxOps.length > 0 && (
+                <div className="config-section">
+                  <div className="section-title">OFFLINE OUTBOX</div>
+                  <div className="net-desc">
+                    {pendingCount} change{pendingCount === 1 ? '' : 's'} waiting to sync
+                    {failedCount > 0 && <>, <span className="text-danger">{failedCount} rejected by the database</span></>}
+                  </div>
+                  {failedCount > 0 && (
+                    <>
+                      <div className="outbox-error">{outboxOps.find(op => op.status === 'failed')?.error}</div>
+                      <div className="outbox-actions">
+                        <button className="btn-disconnect" onClick={handleRetryFailed}>RETRY FAILED</button>
+                        <button className="btn-disconnect" onClick={handleDiscardFailed}>DISCARD FAILED</button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* EVENT SECTION */}
+              {isConnected && (
+                <div className="config-section">
+                  <div className="section-title">EVENT</div>
+                  <div className="input-group">
+                    <label>Joined Event</label>
+                    <select
+                      className="role-select"
+                      value={eventId}
+                      onChange={(e) => switchEvent(e.target.value)}
+                    >
+                      {!currentEvent && <option value={eventId}>{eventId}</option>}
+                      {activeEvents.map(e => (
+                        <option key={e.id} value={e.id}>{e.name || e.id}</option>
+                      ))}
+                      {archivedEvents.length > 0 && (
+                        <optgroup label="Archived">
+                          {archivedEvents.map(e => (
+                            <option key={e.id} value={e.id}>{e.name || e.id}</option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                  </div>
+                  {isCoordinator && (
+                    <div className="reset-row">
+                      <input
+                        type="text"
+                        className="input-config"
+                        placeholder="New event, e.g. May Double-Header"
+                        value={newEventName}
+                        onChange={(e) => setNewEventName(e.target.value)}
+                      />
+                      <button className="btn-join" onClick={handleCreateEvent} disabled={!newEventName.trim()}>
+                        CREATE
+                      </button>
+                    </div>
+                  )}
+                  {isCoordinator && currentEvent && (
+                    <button className="btn-disconnect" onClick={() => handleArchiveEvent(eventId, !currentEvent.archived)}>
+                      {currentEvent.archived ? 'RESTORE EVENT' : 'ARCHIVE EVENT'}
+                    </button>
+                  )}
+                  {eventError && <div className="net-error">{eventError}</div>}
+                </div>
+              )}
+
+              {/* COORDINATOR SECTION */}
+              {isConnected && isCoordinator && (
+                <div className="config-section">
+                  <div className="section-title">COORDINATOR</div>
+                  {!coordinatorPinHash && (
+                    <div className="net-error">No PIN set for this event. Anyone can claim the role until you set one.</div>
+                  )}
+                  <div className="input-group">
+                    <label>Hand off to</label>
+                    <div className="reset-row">
+                      <select
+                        className="role-select"
+                        value={handoffTarget}
+                        onChange={(e) => setHandoffTarget(e.target.value)}
+                      >
+                        <option value="">{handoffCandidates.length > 0 ? 'Select device...' : 'No other devices online'}</option>
+                        {handoffCandidates.map(p => (
+                          <option key={p.device_id} value={p.device_id}>{p.name || p.role || 'No role'} · {p.device_id}</option>
+                        ))}
+                      </select>
+                      <button className="btn-join" onClick={handleHandoff} disabled={!handoffTarget}>
+                        HAND OFF
+                      </button>
+                    </div>
+                  </div>
+                  <div className="input-group">
+                    <label>{coordinatorPinHash ? 'Change PIN' : 'Set PIN'}</label>
+                    <div className="reset-row">
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        className="input-config"
+                        placeholder={`${MIN_PIN_LENGTH}+ digits`}
+                        value={newPinInput}
+                        onChange={(e) => setNewPinInput(e.target.value)}
+                      />
+                      <button className="btn-join" onClick={handlePinChange} disabled={newPinInput.trim().length < MIN_PIN_LENGTH}>
+                        SAVE
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* STATIONS SECTION */}
+              {isConnected && isCoordinator && (
+                <div className="config-section">
+                  <div className="section-title">STATIONS</div>
+                  {!stationDraft ? (
+                    <>
+                      <div className="station-config-preview">
+                        {stations.map(st => (
+                          <span key={st.code} {...stationBadge(st.code, 'compact-badge')}>{st.short}</span>
+                        ))}
+                      </div>
+                      <button className="btn-disconnect" onClick={() => setStationDraft(stations)}>EDIT STATIONS</button>
+                    </>
+                  ) : (
+                    <>
+                      {stationDraft.map((st, i) => (
+                        <div key={st.code} className="station-config-row">
+                          <input
+                            type="color"
+                            className="station-color"
+                            value={st.color}
+                            onChange={(e) => handleStationDraftChange(st.code, { color: e.target.value })}
+                          />
+                          <input
+                            type="text"
+                            className="input-config"
+                            placeholder="Name"
+                            value={st.name}
+                            onChange={(e) => handleStationDraftChange(st.code, { name: e.target.value })}
+                          />
+                          <input
+                            type="text"
+                            className="input-config station-short"
+                            placeholder="Short"
+                            maxLength={8}
+                            value={st.short}
+                            onChange={(e) => handleStationDraftChange(st.code, { short: e.target.value.toUpperCase() })}
+                          />
+                          <button
+                            className={`btn-undo-tap ${isSalesStation(st) ? 'active' : ''}`}
+                            onClick={() => handleStationDraftChange(st.code, { sales: !isSalesStation(st) })}
+                            title="Takes payments (sales and till close out)"
+                          >
+                            $
+                          </button>
+                          <button
+                            className={`btn-undo-tap ${isAdmissionsStation(st) ? 'active' : ''}`}
+                            onClick={() => handleStationDraftChange(st.code, { admissions: !isAdmissionsStation(st) })}
+                            title="Sells entry (told to pause at capacity)"
+                          >
+                            IN
+                          </button>
+                          <button className="btn-undo-tap" onClick={() => handleStationMove(st.code, -1)} disabled={i === 0}>▲</button>
+                          <button className="btn-undo-tap" onClick={() => handleStationMove(st.code, 1)} disabled={i === stationDraft.length - 1}>▼</button>
+                          <button className="btn-undo-tap" onClick={() => handleStationRemove(st.code)}>✕</button>
+                        </div>
+                      ))}
+                      <div className="reset-row">
+                        <input
+                          type="text"
+                          className="input-config"
+                          placeholder="New station, e.g. First Aid"
+                          value={newStationName}
+                          onChange={(e) => setNewStationName(e.target.value)}
+                        />
+                        <button className="btn-join" onClick={handleStationAdd} disabled={!newStationName.trim()}>
+                          ADD
+                        </button>
+                      </div>
+                      <div className="outbox-actions">
+                        <button className="btn-join" onClick={handleStationsSave}>SAVE STATIONS</button>
+                        <button className="btn-disconnect" onClick={() => setStationDraft(null)}>CANCEL</button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* QUICK MESSAGES SECTION */}
+              {isConnected && isCoordinator && (
+                <div className="config-section">
+                  <div className="section-title">QUICK MESSAGES</div>
+                  {!quickDraft ? (
+                    <>
+                      <div className="net-desc">
+                        {quickMessages.length} one-tap message{quickMessages.length === 1 ? '' : 's'}. Put blanks in braces, e.g. "Out of {'{item}'}".
+                      </div>
+                      <button className="btn-disconnect" onClick={() => setQuickDraft(quickMessages)}>EDIT QUICK MESSAGES</button>
+                    </>
+                  ) : (
+                    <>
+                      {quickDraft.map(qm => (
+                        <div key={qm.id} className="station-config-row">
+                          <select
+                            className="role-select"
+                            value={qm.station || ''}
+                            onChange={(e) => patchQuickDraft(qm.id, { station: e.target.value || null })}
+                          >
+                            <option value="">All</option>
+                            <option value="COORDINATOR">BC</option>
+                            {stations.map(st => (
+                              <option key={st.code} value={st.code}>{st.short}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            className="input-config"
+                            placeholder="e.g. Out of {item}"
+                            value={qm.text}
+                            onChange={(e) => patchQuickDraft(qm.id, { text: e.target.value })}
+                          />
+                          <button
+                            className={`btn-undo-tap ${qm.urgent ? 'active' : ''}`}
+                            onClick={() => patchQuickDraft(qm.id, { urgent: !qm.urgent })}
+                            title="Send as urgent"
+                          >
+                            !
+                          </button>
+                          <button className="btn-undo-tap" onClick={() => setQuickDraft(quickDraft.filter(other => other.id !== qm.id))}>✕</button>
+                        </div>
+                      ))}
+                      <button
+                        className="btn-undo-tap show-add"
+                        onClick={() => setQuickDraft([...quickDraft, { id: makeId(), station: null, text: '', urgent: false }])}
+                      >
+                        + MESSAGE
+                      </button>
+                      <div className="outbox-actions">
+                        <button className="btn-join" onClick={handleQuickMessagesSave}>SAVE QUICK MESSAGES</button>
+                        <button className="btn-disconnect" onClick={() => setQuickDraft(null)}>CANCEL</button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
               {isConnected ? (
                 <>
                   <div className="net-active-state">
-                    <div className="active-title">CONNECTED TO SUPABASE</div>
-                    <div className="active-info">Data syncing in real-time</div>
+                    <div className="active-title">{backend?.kind === 'local' ? 'LOCAL SYNC ACTIVE' : 'CONNECTED TO SUPABASE'}</div>
+                    <div className="active-info">
+                      {backend?.kind === 'local'
+                        ? (relayUrl.trim() ? `Syncing through relay ${relayUrl.trim()}` : 'Syncing between tabs on this device')
+                        : 'Data syncing in real-time'}
+                    </div>
                     <div className="device-id-display">Device ID: {deviceId}</div>
+                    {syncProblems.map(problem => (
+                      <div key={problem} className="net-error">{problem}</div>
+                    ))}
                     <button className="btn-disconnect" onClick={disconnect}>DISCONNECT & CLEAR</button>
                   </div>
+
+                  {/* EXPORT */}
+                  <div className="config-section">
+                    <div className="section-title">EXPORT EVENT RECORDS</div>
+                    <div className="net-desc">Message log, door and capacity history and station sales, with full timestamps.</div>
+                    <div className="outbox-actions">
+                      <button className="btn-disconnect" onClick={() => handleExport('log-csv')}>LOG CSV</button>
+                      <button className="btn-disconnect" onClick={() => handleExport('attendance-csv')}>DOOR CSV</button>
+                      <button className="btn-disconnect" onClick={() => handleExport('json')}>JSON</button>
+                    </div>
+                    <div className="outbox-actions">
+                      <button className="btn-disconnect" onClick={() => setShowSalesReport(true)}>SALES REPORT</button>
+                      <button className="btn-disconnect" onClick={() => handleExport('sales-csv')}>SALES CSV</button>
+                      <button className="btn-disconnect" onClick={() => handleExport('incidents-csv')}>INCIDENTS CSV</button>
+                    </div>
+                    {exportError && <div className="net-error">{exportError}</div>}
+                  </div>
                   
-                  {/* DANGER ZONE - RESET */}
-                  <div className="danger-zone">
-                    <div className="danger-title">Danger Zone</div>
-                    {!showResetView ? (
-                      <button className="btn-show-reset" onClick={() => setShowResetView(true)}>
-                        RESET EVENT DATA
-                      </button>
-                    ) : (
-                      <div className="reset-container">
-                        <div className="net-desc" style={{marginBottom: '8px', color: 'var(--danger)', fontSize: '0.8rem'}}>
-                          Type <strong>RESET</strong> to clear all messages and zero the counter.
+                  {/* ARCHIVES */}
+                  {archives.length > 0 && (
+                    <div className="config-section">
+                      <div className="section-title">RESET ARCHIVES</div>
+                      {archives.map(archive => (
+                        <div key={archive.id} className="archive-item">
+                          <div className="archive-row">
+                            <button
+                              className="archive-summary"
+                              onClick={() => setExpandedArchiveId(prev => prev === archive.id ? null : archive.id)}
+                            >
+                              <span className="archive-date">{new Date(archive.created_at).toLocaleString()}</span>
+                              <span className="archive-meta">
+                                {archive.messages.length} msgs · {archive.door_count} in building
+                                {archive.restored_at && ' · restored'}
+                              </span>
+                            </button>
+                            {isCoordinator && canUndoArchive(archive, clockNow) && (
+                              <button className="btn-undo-tap" onClick={() => handleUndoReset(archive)}>UNDO</button>
+                            )}
+                          </div>
+                          {expandedArchiveId === archive.id && (
+                            <div className="archive-log">
+                              <AttendanceChart taps={archive.door_taps} capacity={capacity} milestones={archive.milestones || {}} />
+                              {archive.messages.length === 0 && <div className="empty-log">No messages in this snapshot.</div>}
+                              {archive.messages.map(msg => (
+                                <div key={msg.id} className="compact-item">
+                                  <span className="compact-time">{msg.time}</span>
+                                  <span {...stationBadge(msg.station, 'compact-badge')}>
+                                    {getShortSender(msg.station)}
+                                  </span>
+                                  <span className="compact-text">{msg.text}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
-                        <div className="reset-row">
-                          <input 
-                            type="text" 
-                            className="input-danger"
-                            placeholder="Type RESET"
-                            value={resetInputText}
-                            onChange={(e) => setResetInputText(e.target.value)}
-                          />
+                      ))}
+                    </div>
+                  )}
+
+                  {/* DANGER ZONE - RESET (Bout Coordinator only) */}
+                  {isCoordinator && (
+                    <div className="danger-zone">
+                      <div className="danger-title">Danger Zone</div>
+                      {!showResetView ? (
+                        <button className="btn-show-reset" onClick={() => setShowResetView(true)}>
+                          RESET EVENT DATA
+                        </button>
+                      ) : (
+                        <div className="reset-container">
+                          <div className="net-desc" style={{marginBottom: '8px', color: 'var(--danger)', fontSize: '0.8rem'}}>
+                            Type <strong>RESET</strong> to archive and clear all messages and zero the counter. You can undo for {RESET_UNDO_MS / 60000} minutes.
+                          </div>
+                          <div className="reset-row">
+                            <input 
+                              type="text" 
+                              className="input-danger"
+                              placeholder="Type RESET"
+                              value={resetInputText}
+                              onChange={(e) => setResetInputText(e.target.value)}
+                            />
+                            <button 
+                              className="btn-danger-confirm" 
+                              disabled={resetInputText !== 'RESET'}
+                              onClick={handleFullReset}
+                            >
+                              CONFIRM
+                            </button>
+                          </div>
                           <button 
-                            className="btn-danger-confirm" 
-                            disabled={resetInputText !== 'RESET'}
-                            onClick={handleFullReset}
+                            className="btn-cancel-reset" 
+                            onClick={() => { setShowResetView(false); setResetInputText(''); }}
+                            style={{marginTop: '8px', width: '100%', background: 'transparent', border: 'none', color: 'var(--text-muted)', fontSize: '0.8rem', cursor: 'pointer'}}
                           >
-                            CONFIRM
+                            Cancel
                           </button>
                         </div>
-                        <button 
-                          className="btn-cancel-reset" 
-                          onClick={() => { setShowResetView(false); setResetInputText(''); }}
-                          style={{marginTop: '8px', width: '100%', background: 'transparent', border: 'none', color: 'var(--text-muted)', fontSize: '0.8rem', cursor: 'pointer'}}
-                        >
-                          Cancel
-                        </button>
-                      </div>
-                    )}
-                  </div>
+                      )}
+                      {resetError && <div className="net-error">{resetError}</div>}
+                    </div>
+                  )}
                 </>
               ) : (
                 <div className="net-section">
                    <div className="section-title">DATABASE CONNECTION</div>
-                  <div className="net-desc">Enter your Supabase credentials to sync.</div>
-                  <input 
-                    type="text" 
-                    placeholder="Project URL (https://...supabase.co)" 
-                    value={configUrl}
-                    onChange={(e) => setConfigUrl(e.target.value)}
-                    className="input-config"
-                  />
-                  <input 
-                    type="password" 
-                    placeholder="API Key (public/anon)" 
-                    value={configKey}
-                    onChange={(e) => setConfigKey(e.target.value)}
-                    className="input-config"
-                  />
+                  <div className="log-tabs backend-tabs">
+                    <button className={`log-tab ${backendKind === 'supabase' ? 'active' : ''}`} onClick={() => setBackendKind('supabase')}>
+                      SUPABASE
+                    </button>
+                    <button className={`log-tab ${backendKind === 'local' ? 'active' : ''}`} onClick={() => setBackendKind('local')}>
+                      LOCAL / LAN
+                    </button>
+                  </div>
+                  {backendKind === 'supabase' ? (
+                    <>
+                      <div className="net-desc">Enter your Supabase credentials to sync.</div>
+                      <input 
+                        type="text" 
+                        placeholder="Project URL (https://...supabase.co)" 
+                        value={configUrl}
+                        onChange={(e) => setConfigUrl(e.target.value)}
+                        className="input-config"
+                      />
+                      <input 
+                        type="password" 
+                        placeholder="API Key (public/anon)" 
+                        value={configKey}
+                        onChange={(e) => setConfigKey(e.target.value)}
+                        className="input-config"
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <div className="net-desc">
+                        No internet needed. Devices sync through the relay on the venue network (<code>npm run relay</code>).
+                        Leave blank to sync tabs on this device only.
+                      </div>
+                      <input 
+                        type="text" 
+                        placeholder="Relay address (ws://192.168.1.10:8787)" 
+                        value={relayUrl}
+                        onChange={(e) => setRelayUrl(e.target.value)}
+                        className="input-config"
+                      />
+                    </>
+                  )}
                   {connectionError && <div className="net-error">{connectionError}</div>}
-                  <button className="btn-join" onClick={() => connectToSupabase(configUrl, configKey)}>
+                  <button className="btn-join" onClick={() => connectBackend(currentBackendConfig())}>
                     CONNECT DATABASE
                   </button>
                 </div>
               )}
+
+              {/* SETUP CHECK SECTION */}
+              {backendKind === 'supabase' && (
+                <div className="config-section">
+                  <div className="section-title">SETUP CHECK</div>
+                  <div className="net-desc">
+                    Checks every table and column, this event's row, anon access and live updates. It writes the SQL for anything missing.
+                  </div>
+                  <button className="btn-disconnect" onClick={handleSetupCheck} disabled={setupRunning}>
+                    {setupRunning ? 'CHECKING...' : 'RUN SETUP CHECK'}
+                  </button>
+                  {setupChecks && (
+                    <div className="roster-list">
+                      {setupChecks.map(check => (
+                        <div key={check.label} className={`roster-item setup-${check.status}`}>
+                          <span className="setup-mark">{check.status === 'ok' ? '✓' : check.status === 'warn' ? '!' : '✕'}</span>
+                          <div className="roster-who">
+                            <span className="roster-name">{check.label}</span>
+                            <span className="roster-meta setup-detail">{check.detail}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {setupSql && (
+                    <>
+                      <div className="net-desc">Run this in the Supabase SQL editor, then check again.</div>
+                      <textarea className="input-config setup-sql" readOnly rows={8} value={setupSql} />
+                      <button className="btn-join" onClick={() => navigator.clipboard?.writeText(setupSql)}>COPY SQL</button>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
              <div className="branding-footer">
                 BOUT COORDINATOR SYSTEMS™
@@ -640,6 +5391,29 @@ const BoutCoordinatorApp = () => {
       )}
 
       <div className="main-content">
+
+        {/* Capacity alert broadcast to every station */}
+        {showCapacityAlert && activeAlert && (
+          <div className={`capacity-banner ${(activeAlert.alert_level || 0) >= 100 ? 'capacity-banner-full' : ''}`}>
+            <div className="capacity-banner-text">
+              <strong>{(activeAlert.alert_level || 0) >= 100 ? 'AT CAPACITY' : `CAPACITY ${activeAlert.alert_level}%`}</strong>
+              <span>
+                {sellsEntry
+                  ? ((activeAlert.alert_level || 0) >= 100 ? 'STOP TICKET SALES NOW' : 'PAUSE TICKET SALES')
+                  : `${doorCount} / ${capacity} in building`}
+              </span>
+            </div>
+            <button className="btn-close" onClick={() => setActiveAlert(null)} title="Dismiss">✕</button>
+          </div>
+        )}
+
+        {/* Undo window after a reset */}
+        {isCoordinator && undoableArchive && (
+          <div className="undo-banner">
+            <span>Event data reset. Undo available for {formatCountdown(new Date(undoableArchive.created_at).getTime() + RESET_UNDO_MS - clockNow)}</span>
+            <button className="btn-undo-reset" onClick={() => handleUndoReset(undoableArchive)}>UNDO RESET</button>
+          </div>
+        )}
         
         {/* Module 1: Door Counter */}
         <div className="card counter-card">
@@ -649,8 +5423,12 @@ const BoutCoordinatorApp = () => {
               <label>Cap:</label>
               <input 
                 type="number" 
-                value={capacity} 
-                onChange={(e) => handleCapacityChange(Math.max(1, parseInt(e.target.value) || 0))}
+                value={capacityDraft ?? capacity} 
+                onChange={(e) => setCapacityDraft(e.target.value)}
+                onBlur={handleCapacitySave}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                disabled={!isCoordinator}
+                title={isCoordinator ? undefined : 'Only the Bout Coordinator can change capacity'}
                 className="capacity-input"
               />
             </div>
@@ -672,42 +5450,289 @@ const BoutCoordinatorApp = () => {
               </div>
             </div>
 
+            <AttendanceChart
+              taps={doorTaps}
+              capacity={capacity}
+              milestones={milestones}
+              endTime={currentEvent?.archived ? undefined : Date.now()}
+            />
+
+            {isCoordinator && (
+              <div className="milestone-row">
+                {MILESTONES.map(m => (
+                  <button
+                    key={m.id}
+                    className={`milestone-chip ${milestones[m.id] ? 'marked' : ''}`}
+                    onClick={() => handleMilestone(m.id)}
+                  >
+                    {m.label}
+                    {milestones[m.id] && <span className="milestone-time">{formatClock(new Date(milestones[m.id]!).getTime())}</span>}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="door-select">
+              {DOORS.map(door => (
+                <button
+                  key={door.id}
+                  className={`door-chip ${activeDoor === door.id ? 'active' : ''}`}
+                  onClick={() => setActiveDoor(door.id)}
+                >
+                  {door.label}
+                </button>
+              ))}
+            </div>
+
             <div className="counter-controls">
               <button 
                 className="btn btn-dec" 
-                onClick={() => handleDoorChange(-1)}
+                onClick={() => handleDoorChange('EXIT')}
+                title="Exit"
               >
                 -
               </button>
               
               <div className="count-display-large">
                 {doorCount}
-                <span className="count-label">ATTENDEES</span>
+                <span className="count-label">IN BUILDING</span>
               </div>
               
               <button 
                 className="btn btn-inc" 
-                onClick={() => handleDoorChange(1)}
+                onClick={() => handleDoorChange('ENTRY')}
+                title="Entry"
               >
                 +
               </button>
             </div>
+
+            <div className="door-breakdown">
+              {DOORS.map(door => (
+                <div key={door.id} className={`door-tally ${activeDoor === door.id ? 'active' : ''}`}>
+                  <span className="door-tally-name">{door.label}</span>
+                  <span className="door-tally-in">IN {doorTally[door.id].entries}</span>
+                  <span className="door-tally-out">OUT {doorTally[door.id].exits}</span>
+                </div>
+              ))}
+              <div className="door-tally door-tally-total">
+                <span className="door-tally-name">Gross</span>
+                <span>{grossAttendance}</span>
+                <button
+                  className="btn-undo-tap"
+                  onClick={handleUndoTap}
+                  disabled={!undoableTap}
+                  title={undoableTap ? `Correct last ${getTapKind(undoableTap).toLowerCase()} at ${undoableTap.door || 'MAIN'}` : 'Nothing to correct'}
+                >
+                  UNDO
+                </button>
+              </div>
+            </div>
+
+            {(tickets.length > 0 || isCoordinator) && (
+              <div className="ticket-checkin">
+                {tickets.length > 0 && (
+                  <form className="ticket-form" onSubmit={handleTicketCheckin}>
+                    <input
+                      type="text"
+                      className="ticket-input"
+                      placeholder="Ticket code or scan"
+                      autoComplete="off"
+                      autoCapitalize="characters"
+                      value={ticketCodeInput}
+                      onChange={(e) => setTicketCodeInput(e.target.value)}
+                    />
+                    <button type="submit" className="btn-ticket-checkin" disabled={!ticketCodeInput.trim()}>CHECK IN</button>
+                  </form>
+                )}
+                {ticketResult && (
+                  <div className={`ticket-result ticket-${ticketResult.status.toLowerCase()}`}>
+                    <strong>
+                      {ticketResult.status === 'OK' ? 'ADMIT' : ticketResult.status === 'USED' ? 'ALREADY USED' : 'NOT ON THE LIST'}
+                    </strong>
+                    <span>
+                      {ticketResult.code}
+                      {ticketResult.ticket?.name && ` · ${ticketResult.ticket.name}`}
+                      {ticketResult.ticket?.tier && ` · ${ticketResult.ticket.tier}`}
+                      {ticketResult.ticket?.comp && ' · COMP'}
+                      {ticketResult.previous && ` · in at ${formatClock(new Date(ticketResult.previous.created_at).getTime())}, ${ticketResult.previous.door} door`}
+                    </span>
+                  </div>
+                )}
+                <button
+                  className={`btn-undo-tap btn-tickets ${ticketSummary.doubleEntries.length > 0 ? 'tickets-warning' : ''}`}
+                  onClick={() => setShowTickets(true)}
+                >
+                  {tickets.length > 0 ? `TICKETS ${ticketSummary.arrived} / ${ticketSummary.listed}` : 'IMPORT TICKETS'}
+                  {ticketSummary.doubleEntries.length > 0 && ` · ${ticketSummary.doubleEntries.length} DOUBLE`}
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
-        {/* Module 2: Station Dashboard */}
+        {/* Module 2: Station Inventory */}
+        {panelStation && (
+          <div className="card inventory-card" style={stationVars(getStation(panelStation)!)}>
+            <div className="card-header">
+              <span>{getStation(panelStation)!.name} Stock</span>
+              <button
+                className="btn-undo-tap"
+                onClick={handleUndoStockMove}
+                disabled={!undoableMove}
+                title={undoableMove ? 'Correct your last stock entry' : 'Nothing to correct'}
+              >
+                UNDO
+              </button>
+            </div>
+
+            {isCoordinator && (
+              <div className="door-select">
+                {stations.map(st => (
+                  <button
+                    key={st.code}
+                    className={`door-chip ${panelStation === st.code ? 'active' : ''}`}
+                    onClick={() => setInventoryStation(st.code)}
+                  >
+                    {st.short}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="inventory-list">
+              {panelItems.length === 0 && <div className="station-empty">No stock tracked for this station</div>}
+              {panelItems.map(item => {
+                const remaining = stock[item.id];
+                return (
+                  <div key={item.id} className={`inventory-item ${isLowStock(item, remaining) ? 'inventory-low' : ''}`}>
+                    <div className="inventory-name">
+                      <span>{itemLabel(item)}</span>
+                      <button className="btn-remove-item" onClick={() => handleRemoveItem(item)} title="Stop tracking">✕</button>
+                    </div>
+                    <span className="inventory-count">{remaining}</span>
+                    {restockItemId === item.id ? (
+                      <form className="inventory-restock" onSubmit={(e) => { e.preventDefault(); handleRestock(item); }}>
+                        <input
+                          type="number"
+                          min={1}
+                          className="capacity-input"
+                          value={restockQty}
+                          onChange={(e) => setRestockQty(e.target.value)}
+                          autoFocus
+                        />
+                        <button type="submit" className="btn-undo-tap" disabled={!(parseInt(restockQty) > 0)}>ADD</button>
+                        <button type="button" className="btn-undo-tap" onClick={() => setRestockItemId(null)}>✕</button>
+                      </form>
+                    ) : (
+                      <div className="inventory-actions">
+                        <button className="btn-undo-tap" onClick={() => { setRestockItemId(item.id); setRestockQty(''); }}>+ STOCK</button>
+                        <button className="btn-sell" onClick={() => recordStockMove(item, 'SALE', -1)} disabled={remaining <= 0}>SELL</button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {showAddItem ? (
+              <div className="inventory-add">
+                <input type="text" className="input-config" placeholder="Item (e.g. Keg)" value={newItemName} onChange={(e) => setNewItemName(e.target.value)} />
+                <input type="text" className="input-config" placeholder="Variants, comma separated (e.g. S, M, L)" value={newItemVariants} onChange={(e) => setNewItemVariants(e.target.value)} />
+                <div className="inventory-add-row">
+                  <input type="number" min={0} className="input-config" placeholder="Starting stock" value={newItemStock} onChange={(e) => setNewItemStock(e.target.value)} />
+                  <input type="number" min={0} className="input-config" placeholder="Warn at" value={newItemLowAt} onChange={(e) => setNewItemLowAt(e.target.value)} />
+                </div>
+                <div className="inventory-add-row">
+                  <button className="btn-join" onClick={handleAddItem} disabled={!newItemName.trim()}>ADD ITEM</button>
+                  <button className="btn-disconnect" onClick={() => setShowAddItem(false)}>CANCEL</button>
+                </div>
+              </div>
+            ) : (
+              <button className="btn-undo-tap btn-add-item" onClick={() => setShowAddItem(true)}>+ ITEM</button>
+            )}
+          </div>
+        )}
+
+        {/* Module 3: Station Sales */}
+        {panelReport && (
+          <div className="card inventory-card" style={stationVars(panelReport.station)}>
+            <div className="card-header">
+              <span>{panelReport.station.name} Sales</span>
+              <button
+                className="btn-undo-tap"
+                onClick={handleVoidSale}
+                disabled={!undoableSale}
+                title={undoableSale ? `Void your last sale (${formatMoney(undoableSale.amount)} ${undoableSale.method.toLowerCase()})` : 'Nothing to void'}
+              >
+                VOID LAST
+              </button>
+            </div>
+            <div className="inventory-add sales-body">
+              <div className="inventory-add-row">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className="input-config"
+                  placeholder="Amount, e.g. 20"
+                  value={saleAmount}
+                  onChange={(e) => setSaleAmount(e.target.value)}
+                />
+                {PAYMENT_METHODS.map(method => (
+                  <button key={method} className="btn-sell" onClick={() => handleRecordSale(method)} disabled={!parseMoney(saleAmount)}>
+                    {method}
+                  </button>
+                ))}
+              </div>
+              <div className="sales-totals">
+                <span>{panelReport.count} sales</span>
+                <span>Cash {formatMoney(panelReport.cash)}</span>
+                <span>Card {formatMoney(panelReport.card)}</span>
+              </div>
+              {panelReport.closeout && !showCloseout && (
+                <div className={`sales-variance ${panelReport.cashVariance || panelReport.cardVariance ? 'variance-off' : ''}`}>
+                  Closed out {formatClock(new Date(panelReport.closeout.created_at).getTime())}:
+                  cash {formatVariance(panelReport.cashVariance!)}, card {formatVariance(panelReport.cardVariance!)}
+                </div>
+              )}
+              {showCloseout ? (
+                <form className="inventory-add closeout-form" onSubmit={handleCloseout}>
+                  <div className="inventory-add-row">
+                    <input type="text" inputMode="decimal" className="input-config" placeholder="Opening float" value={closeoutFloat} onChange={(e) => setCloseoutFloat(e.target.value)} />
+                    <input type="text" inputMode="decimal" className="input-config" placeholder="Counted cash" value={closeoutCash} onChange={(e) => setCloseoutCash(e.target.value)} />
+                    <input type="text" inputMode="decimal" className="input-config" placeholder="Card total" value={closeoutCard} onChange={(e) => setCloseoutCard(e.target.value)} />
+                  </div>
+                  <input type="text" className="input-config" placeholder="Note (optional)" value={closeoutNote} onChange={(e) => setCloseoutNote(e.target.value)} />
+                  <div className="inventory-add-row">
+                    <button type="submit" className="btn-join" disabled={parseMoney(closeoutCash) === null}>SAVE CLOSE OUT</button>
+                    <button type="button" className="btn-disconnect" onClick={() => setShowCloseout(false)}>CANCEL</button>
+                  </div>
+                </form>
+              ) : (
+                <button className="btn-undo-tap" onClick={handleOpenCloseout}>{panelReport.closeout ? 'RECOUNT' : 'CLOSE OUT'}</button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Module 4: Station Dashboard */}
         <div className="station-grid">
-          {GRID_STATIONS.map(station => {
-            const lastMsg = getLastMessage(station);
-            const isSelected = isCoordinator && selectedStation === station;
+          {stations.map(station => {
+            const lastMsg = getLastMessage(station.code);
+            const isSelected = isCoordinator && selectedStations.includes(station.code);
+            const unackedCount = openAckRequests.filter(m => m.station === station.code).length;
+            const stationItems = activeItems.filter(i => i.station === station.code);
             return (
               <div 
-                key={station} 
-                className={`card station-card station-${station.toLowerCase()} ${isSelected ? 'selected' : ''}`}
-                onClick={() => handleStationClick(station)}
+                key={station.code} 
+                className={`card station-card ${isSelected ? 'selected' : ''}`}
+                style={stationVars(station)}
+                onClick={() => handleStationClick(station.code)}
               >
                 <div className="station-header">
-                  <span className="station-name">{station}</span>
+                  <span className="station-name">{station.name}</span>
+                  {unstaffedStations.includes(station) && <span className="unstaffed-tag" title="No device is signed in to this station">UNSTAFFED</span>}
+                  {unackedCount > 0 && <span className="ack-count" title="Awaiting acknowledgement">{unackedCount} UNACKED</span>}
                   {lastMsg && <span className="station-time">{lastMsg.time}</span>}
                 </div>
                 <div className="station-body">
@@ -717,19 +5742,77 @@ const BoutCoordinatorApp = () => {
                     <div className="station-empty">No activity</div>
                   )}
                 </div>
+                {stationItems.length > 0 && (
+                  <div className="station-stock">
+                    {stationItems.map(item => (
+                      <span key={item.id} className={`stock-chip ${isLowStock(item, stock[item.id]) ? 'stock-low' : ''}`}>
+                        {itemLabel(item)} {stock[item.id]}
+                      </span>
+                    ))}
+                  </div>
+                )}
               </div>
             );
           })}
         </div>
 
-        {/* Module 3: Input & Log */}
+        {/* Module 5: Input & Log */}
         <div className="card messages-card">
-          <form className="input-area" onSubmit={handleSendMessage}>
+          <form className="input-area" onSubmit={quickFill ? handleQuickFillSend : handleSendMessage}>
+            {isCoordinator && selectedStations.length > 0 && (
+              <div className="recipient-row">
+                <span className="recipient-label">TO</span>
+                {selectedStations.map(station => (
+                  <button
+                    key={station}
+                    type="button"
+                    {...stationBadge(station, 'compact-badge recipient-chip')}
+                    onClick={() => handleStationClick(station)}
+                  >
+                    {getShortSender(station)} ✕
+                  </button>
+                ))}
+              </div>
+            )}
+            {myQuickMessages.length > 0 && !quickFill && (
+              <div className="quick-row">
+                {myQuickMessages.map(qm => (
+                  <button
+                    key={qm.id}
+                    type="button"
+                    className={`quick-chip ${qm.urgent ? 'quick-urgent' : ''}`}
+                    onClick={() => handleQuickMessage(qm)}
+                  >
+                    {qm.text}
+                  </button>
+                ))}
+              </div>
+            )}
+            {quickFill && (
+              <div className="quick-row quick-fill">
+                <span className={`quick-chip active ${quickFill.template.urgent ? 'quick-urgent' : ''}`}>
+                  {quickFill.template.text}
+                </span>
+                {getTemplateParams(quickFill.template.text).map((key, i) => (
+                  <input
+                    key={key}
+                    type="text"
+                    inputMode={isNumericParam(key) ? 'numeric' : 'text'}
+                    className="input-config quick-param"
+                    placeholder={key}
+                    autoFocus={i === 0}
+                    value={quickFill.values[key] || ''}
+                    onChange={(e) => setQuickFill({ ...quickFill, values: { ...quickFill.values, [key]: e.target.value } })}
+                  />
+                ))}
+                <button type="button" className="btn-undo-tap" onClick={() => setQuickFill(null)}>✕</button>
+              </div>
+            )}
             <div className={`input-row ${currentSender === 'COORDINATOR' ? 'mode-coordinator' : ''}`}>
-              <div className={`selected-indicator badge-${currentSender.toLowerCase()} ${!isAssigned ? 'badge-none' : ''}`}>
+              <div {...stationBadge(currentSender, `selected-indicator ${!isAssigned ? 'badge-none' : ''}`)}>
                 <span className="badge-label">{getShortSender(currentSender)}</span>
-                {isCoordinator && selectedStation && (
-                  <button type="button" className="btn-clear-station" onClick={() => setSelectedStation(null)} title="Clear Selection">
+                {isCoordinator && selectedStations.length > 0 && (
+                  <button type="button" className="btn-clear-station" onClick={() => setSelectedStations([])} title="Clear Recipients">
                     ✕
                   </button>
                 )}
@@ -740,25 +5823,190 @@ const BoutCoordinatorApp = () => {
                 placeholder={isAssigned ? "Type message..." : "Select role..."}
                 value={inputText}
                 onChange={(e) => setInputText(e.target.value)}
-                disabled={!isAssigned}
+                disabled={!isAssigned || !!quickFill}
               />
+              <button
+                type="button"
+                className={`btn-needs-ack ${needsAck ? 'active' : ''}`}
+                onClick={() => setNeedsAck(prev => !prev)}
+                disabled={!isAssigned}
+                title="Require acknowledgement"
+              >
+                ACK?
+              </button>
+              <button
+                type="button"
+                className={`btn-needs-ack btn-urgent ${isUrgent ? 'active' : ''}`}
+                onClick={() => setIsUrgent(prev => !prev)}
+                disabled={!isAssigned}
+                title="Mark urgent"
+              >
+                !
+              </button>
               <button type="submit" className="btn btn-send" disabled={!isAssigned}>
                 SEND
               </button>
             </div>
           </form>
 
-          <div className="message-list-compact">
-            {messages.length === 0 && (
+          {(openAckRequests.length > 0 || awaitingMyAck.length > 0) && (
+            <div className="ack-summary">
+              {isCoordinator
+                ? `${openAckRequests.length} request${openAckRequests.length === 1 ? '' : 's'} awaiting acknowledgement`
+                : `${awaitingMyAck.length} awaiting your ack`}
+            </div>
+          )}
+
+          {/* Open incidents stay pinned above the log until resolved */}
+          <div className="incident-pins">
+            <div className="incident-bar">
+              <span className={openIncidents.length > 0 ? 'incident-bar-open' : ''}>
+                {openIncidents.length > 0 ? `${openIncidents.length} OPEN INCIDENT${openIncidents.length === 1 ? '' : 'S'}` : 'INCIDENTS'}
+              </span>
+              <button className="btn-undo-tap" onClick={() => setShowIncidentLog(true)}>LOG</button>
+              <button className="btn-undo-tap" onClick={() => setIncidentDraft(EMPTY_INCIDENT_DRAFT)} disabled={!isAssigned}>+ REPORT</button>
+            </div>
+            {openIncidents.map(incident => (
+              <div key={incident.id} className={`incident-item incident-${incident.severity.toLowerCase()}`}>
+                <div className="incident-main">
+                  <div className="incident-title">
+                    <strong>{incident.category}</strong> · {incident.severity}
+                    {incident.location && ` · ${incident.location}`}
+                  </div>
+                  <div className="incident-desc">{incident.description}</div>
+                  <div className="roster-meta">
+                    {getShortSender(incident.reported_by)} at {formatClock(new Date(incident.created_at).getTime())} · {formatElapsed(serverNow() - new Date(incident.created_at).getTime())} ago
+                    {incident.status === 'RESPONDING'
+                      ? ` · ${incident.assignee ? getShortSender(incident.assignee) : 'someone'} responding`
+                      : ` · ${incident.assignee ? `assigned ${getShortSender(incident.assignee)}` : 'awaiting response'}`}
+                  </div>
+                </div>
+                <div className="incident-actions">
+                  {isCoordinator && (
+                    <select
+                      className="role-select incident-assign"
+                      value={incident.assignee || ''}
+                      onChange={(e) => updateIncident(incident, { assignee: e.target.value || null })}
+                    >
+                      <option value="">Unassigned</option>
+                      <option value="COORDINATOR">BC</option>
+                      {stations.map(st => (
+                        <option key={st.code} value={st.code}>{st.short}</option>
+                      ))}
+                    </select>
+                  )}
+                  {incident.status === 'OPEN' && (
+                    <button className="btn-undo-tap" onClick={() => handleRespondIncident(incident)} disabled={!isAssigned}>RESPOND</button>
+                  )}
+                  <button className="btn-undo-tap" onClick={() => handleResolveIncident(incident)} disabled={!isAssigned}>RESOLVE</button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {isAssigned && !isCoordinator && (
+            <div className="log-tabs">
+              <button className={`log-tab ${logView === 'all' ? 'active' : ''}`} onClick={() => setLogView('all')}>
+                ALL
+              </button>
+              <button className={`log-tab ${logView === 'inbox' ? 'active' : ''}`} onClick={() => setLogView('inbox')}>
+                INBOX
+                {unreadCount > 0 && logView !== 'inbox' && <span className="unread-badge">{unreadCount}</span>}
+              </button>
+            </div>
+          )}
+
+          <div className="log-filters">
+            <input
+              type="search"
+              className="log-search"
+              placeholder="Search log..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+            <div className="log-chips">
+              <button
+                className={`log-chip ${logFilter.urgent ? 'active' : ''}`}
+                onClick={() => setLogFilter(prev => ({ ...prev, urgent: !prev.urgent }))}
+              >
+                URGENT
+              </button>
+              {isAssigned && (
+                <button
+                  className={`log-chip ${logFilter.mine ? 'active' : ''}`}
+                  onClick={() => setLogFilter(prev => ({ ...prev, mine: !prev.mine, stations: [] }))}
+                >
+                  MINE
+                </button>
+              )}
+              {['COORDINATOR', ...stations.map(st => st.code)].map(code => (
+                <button
+                  key={code}
+                  {...(logFilter.stations.includes(code)
+                    ? stationBadge(code, 'log-chip active')
+                    : { className: 'log-chip' })}
+                  onClick={() => toggleLogStation(code)}
+                >
+                  {getShortSender(code)}
+                </button>
+              ))}
+              {logFiltered && (
+                <button className="log-chip" onClick={handleClearLogFilter}>CLEAR ✕</button>
+              )}
+            </div>
+          </div>
+
+          <div className="message-list-compact" ref={logListRef} onScroll={handleLogScroll}>
+            {!historyDone && (loggedMessages.length > 0 || historyLoading) && (
+              <button className="btn-load-older" onClick={loadOlderMessages} disabled={historyLoading}>
+                {historyLoading ? 'LOADING...' : 'LOAD OLDER'}
+              </button>
+            )}
+            {!logFiltered && logView === 'all' && messages.length === 0 && queuedMessages.length === 0 && (
               <div className="empty-log">Event log is empty. Use the form above to log activity.</div>
             )}
-            {messages.slice().map((msg, idx) => (
-              <div key={idx} className={`compact-item ${msg.station === 'COORDINATOR' ? 'msg-coordinator' : ''}`}>
-                <span className="compact-time">{msg.time}</span>
-                <span className={`compact-badge badge-${msg.station.toLowerCase()}`}>
-                  {msg.station === 'COORDINATOR' ? 'BC' : msg.station}
+            {!logFiltered && logView === 'inbox' && visibleMessages.length === 0 && (
+              <div className="empty-log">Nothing addressed to {getShortSender(myStation)} yet.</div>
+            )}
+            {logFiltered && !historyLoading && visibleMessages.length === 0 && (
+              <div className="empty-log">No messages match.</div>
+            )}
+            {visibleMessages.map(msg => {
+              const msgAcks = acks.filter(a => a.message_id === msg.id);
+              const canAck = isAssigned && msg.needs_ack && msg.station !== myStation && !msgAcks.some(a => a.station === myStation);
+              return (
+                <div key={msg.id} className={`compact-item ${msg.station === 'COORDINATOR' ? 'msg-coordinator' : ''} ${msg.urgent ? 'msg-urgent' : ''} ${isAwaitingAck(msg, acks) ? 'msg-needs-ack' : ''} ${isAssigned && isAddressedTo(msg, myStation) ? 'msg-to-me' : ''}`}>
+                  <span className="compact-time">{msg.time}</span>
+                  <span {...stationBadge(msg.station, 'compact-badge')}>
+                    {getShortSender(msg.station)}
+                  </span>
+                  <span className="compact-text">
+                    {msg.recipients && msg.recipients.length > 0 && (
+                      <span className="compact-recipients">→ {msg.recipients.map(getShortSender).join(', ')} </span>
+                    )}
+                    {msg.text}
+                    {msg.needs_ack && (
+                      <span className="ack-list">
+                        {msgAcks.length === 0
+                          ? 'Awaiting ack'
+                          : `Acked: ${msgAcks.map(a => getShortSender(a.station)).join(', ')}`}
+                      </span>
+                    )}
+                  </span>
+                  {canAck && (
+                    <button className="btn-ack" onClick={() => handleAck(msg)}>ACK</button>
+                  )}
+                </div>
+              );
+            })}
+            {queuedMessages.map(op => (
+              <div key={`queued-${op.id}`} className={`compact-item queued ${op.status === 'failed' ? 'queued-failed' : ''}`}>
+                <span className="compact-time">{op.payload.time}</span>
+                <span {...stationBadge(op.payload.station, 'compact-badge')}>
+                  {getShortSender(op.payload.station)}
                 </span>
-                <span className="compact-text">{msg.text}</span>
+                <span className="compact-text">{op.payload.text}</span>
+                <span className="queued-status">{op.status === 'failed' ? 'FAILED' : 'QUEUED'}</span>
               </div>
             ))}
             <div ref={messagesEndRef} />
@@ -770,5 +6018,12 @@ const BoutCoordinatorApp = () => {
   );
 };
 
+// The service worker caches the app shell and wakes us to replay the outbox
+if ('serviceWorker' in navigator) {
+  navigator.serviceWorker.register('/sw.js').catch(err => console.error('Service worker registration failed', err));
+}
+
+applyJoinLink();
+
 const root = createRoot(document.getElementById('root')!);
 root.render(<BoutCoordinatorApp />);
\ No newline at end of file
@@ -1,4 +1,5 @@
-const CACHE_NAME = 'bcs-v1';
+const CACHE_NAME = 'bcs-v2';
+const OUTBOX_SYNC_TAG = 'outbox-flush';
 const ASSETS = [
   '/',
   '/index.html',
@@ -14,13 +15,53 @@ self.addEventListener('install', (event) => {
 });
 
 self.addEventListener('activate', (event) => {
-  event.waitUntil(self.clients.claim());
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
 });
 
+// Network first so deploys reach devices, cached shell when the WiFi is down.
+// Only same-origin GETs are handled; database traffic goes straight through.
 self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin) return;
+
   event.respondWith(
-    caches.match(event.request).then((response) => {
-      return response || fetch(event.request);
+    fetch(event.request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(event.request, copy));
+        }
+        return response;
+      })
+      .catch(() => caches.match(event.request))
+  );
+});
+
+// Background Sync fires once connectivity returns: ask open tabs to replay
+// their IndexedDB outbox. Rejecting makes the browser retry the sync later.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      if (clients.length === 0) throw new Error('No open clients to flush the outbox');
+      clients.forEach((client) => client.postMessage({ type: 'FLUSH_OUTBOX' }));
+    })
+  );
+});
+
+// Tapping a message notification brings the app back to the front
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      return client ? client.focus() : self.clients.openWindow('/');
     })
   );
 });
\ No newline at end of file
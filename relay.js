@@ -0,0 +1,157 @@
+// Local sync relay for venues with no internet.
+//
+//   npm run build && npm run relay    (port 8787, or pass one: npm run relay -- 9000)
+//
+// Forwards every WebSocket message from one device to all the others and
+// serves the built app from dist/, so phones on the venue WiFi can open
+// http://<this-machine>:8787 and pick LOCAL / LAN with ws://<this-machine>:8787.
+// No dependencies: just enough RFC 6455 for text frames, ping and close.
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8787);
+const DIST = path.resolve('dist');
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MIME_TYPES = {
+  '.html': 'text/html',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png'
+};
+
+const sockets = new Set();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+};
+
+const broadcast = (sender, text) => {
+  const frame = encodeFrame(0x1, Buffer.from(text));
+  sockets.forEach((socket) => {
+    if (socket !== sender && socket.writable) socket.write(frame);
+  });
+};
+
+// Client frames are always masked and may arrive split across TCP chunks
+const handleData = (socket, state, chunk) => {
+  state.buffer = Buffer.concat([state.buffer, chunk]);
+
+  while (state.buffer.length >= 2) {
+    const buffer = state.buffer;
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (buffer.length < 4) return;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) return;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+
+    const maskStart = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) return;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskStart + (i % 4)];
+    }
+    state.buffer = buffer.subarray(offset + length);
+
+    if (opcode === 0x8) {
+      socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      return;
+    }
+    if (opcode === 0x9) {
+      socket.write(encodeFrame(0xa, payload));
+      continue;
+    }
+    if (opcode === 0x1 || opcode === 0x0) {
+      state.fragments.push(payload);
+      if (fin) {
+        broadcast(socket, Buffer.concat(state.fragments).toString());
+        state.fragments = [];
+      }
+    }
+  }
+};
+
+const server = http.createServer((req, res) => {
+  const urlPath = decodeURIComponent(new URL(req.url, 'http://relay').pathname);
+
+  // Devices sync their countdowns to this clock
+  if (urlPath === '/time') {
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify({ now: Date.now() }));
+    return;
+  }
+
+  let file = path.join(DIST, urlPath);
+  if (!file.startsWith(DIST + path.sep) || !fs.existsSync(file) || fs.statSync(file).isDirectory()) {
+    file = path.join(DIST, 'index.html');
+  }
+  if (!fs.existsSync(file)) {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('Relay is running. Run "npm run build" to serve the app from here too.');
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(file)] || 'application/octet-stream' });
+  fs.createReadStream(file).pipe(res);
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  const state = { buffer: Buffer.alloc(0), fragments: [] };
+  sockets.add(socket);
+  console.log(`Device connected (${sockets.size} online)`);
+
+  socket.on('data', (chunk) => handleData(socket, state, chunk));
+  socket.on('close', () => {
+    sockets.delete(socket);
+    console.log(`Device disconnected (${sockets.size} online)`);
+  });
+  socket.on('error', () => sockets.delete(socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`BCS relay listening on port ${PORT}`);
+});
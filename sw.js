@@ -1,23 +0,0 @@
-const CACHE_NAME = 'bcs-v1';
-const ASSETS = [
-  '/',
-  '/index.html',
-  '/index.tsx',
-  '/index.css',
-  '/icon.svg',
-  '/manifest.json'
-];
-
-self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(ASSETS))
-  );
-});
-
-self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request).then((response) => {
-      return response || fetch(event.request);
-    })
-  );
-});
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocalBackend, type SyncBackend } from './sync';
+
+// Node has BroadcastChannel, so replicas created here sync with each other as
+// tabs would. Each one gets its own localStorage so it can go offline and come
+// back with what it held.
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    }
+  };
+};
+type MemoryStorage = ReturnType<typeof memoryStorage>;
+
+const replicas = new Set<SyncBackend>();
+
+const open = (storage: MemoryStorage) => {
+  vi.stubGlobal('localStorage', storage);
+  const backend = createLocalBackend();
+  replicas.add(backend);
+  return backend;
+};
+
+// Closing saves the replica into whichever storage is current
+const shut = (backend: SyncBackend, storage: MemoryStorage) => {
+  vi.stubGlobal('localStorage', storage);
+  backend.close();
+  replicas.delete(backend);
+};
+
+// Hello, snapshot and reply each take a trip through the channel
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+const tap = (id: string) => ({ id, event_id: 'bout', delta: 1, station: 'DOOR', device_id: 'd1', created_at: '2026-01-01T00:00:00.000Z' });
+const cue = (cueId: string | null, eventId = 'bout') => ({ event_id: eventId, cue_id: cueId, sender: 'SYSTEM', recipient: 'ALL', content: 'Doors open' });
+
+beforeEach(() => {
+  vi.stubGlobal('window', new EventTarget());
+});
+
+afterEach(() => {
+  replicas.forEach(backend => backend.close());
+  replicas.clear();
+  vi.unstubAllGlobals();
+});
+
+describe('local backend duplicate keys', () => {
+  it('rejects a row whose key exists and skips it with ignoreDuplicates', async () => {
+    const backend = createLocalBackend({ persist: false });
+    replicas.add(backend);
+
+    await backend.insert('door_taps', [tap('t1')]);
+    const again = await backend.insert('door_taps', [tap('t1')]);
+    expect(again.error?.code).toBe('23505');
+    expect(again.status).toBe(409);
+
+    const skipped = await backend.insert('door_taps', [tap('t1'), tap('t2')], { ignoreDuplicates: true });
+    expect(skipped.error).toBeNull();
+    expect(skipped.data?.map(row => row.id)).toEqual(['t2']);
+
+    const { data } = await backend.select('door_taps');
+    expect(data).toHaveLength(2);
+  });
+
+  it('rejects a duplicate within one insert', async () => {
+    const backend = createLocalBackend({ persist: false });
+    replicas.add(backend);
+
+    const result = await backend.insert('door_taps', [tap('t1'), tap('t1')]);
+    expect(result.error?.code).toBe('23505');
+    expect((await backend.select('door_taps')).data).toHaveLength(0);
+  });
+
+  it('enforces the (event_id, cue_id) index on messages', async () => {
+    const backend = createLocalBackend({ persist: false });
+    replicas.add(backend);
+
+    expect((await backend.insert('messages', [cue('doors')])).error).toBeNull();
+    expect((await backend.insert('messages', [cue('doors')])).error?.code).toBe('23505');
+    expect((await backend.insert('messages', [cue('doors', 'other-bout')])).error).toBeNull();
+    // As in Postgres, nulls never clash
+    expect((await backend.insert('messages', [cue(null), cue(null)])).error).toBeNull();
+
+    const { data } = await backend.select('messages');
+    expect(data).toHaveLength(4);
+  });
+});
+
+describe('local backend merge', () => {
+  it('converges on the newest write', async () => {
+    const a = open(memoryStorage());
+    const b = open(memoryStorage());
+    await settle();
+
+    await a.insert('door_taps', [tap('t1')]);
+    await settle();
+    await a.update('door_taps', { delta: 2 }, { id: 't1' });
+    await settle();
+    await b.update('door_taps', { delta: 3 }, { id: 't1' });
+    await settle();
+    expect((await a.select('door_taps')).data?.[0].delta).toBe(3);
+    expect((await b.select('door_taps')).data?.[0].delta).toBe(3);
+
+    // Simultaneous writes cross in the channel; both replicas keep the same one
+    await Promise.all([
+      a.update('door_taps', { delta: 4 }, { id: 't1' }),
+      b.update('door_taps', { delta: 5 }, { id: 't1' })
+    ]);
+    await settle();
+    const [fromA, fromB] = await Promise.all([a.select('door_taps'), b.select('door_taps')]);
+    expect([4, 5]).toContain(fromA.data?.[0].delta);
+    expect(fromB.data).toEqual(fromA.data);
+  });
+
+  it('catches a returning replica up on writes it missed', async () => {
+    const storageB = memoryStorage();
+    const a = open(memoryStorage());
+    let b = open(storageB);
+    await settle();
+
+    await a.insert('door_taps', [tap('t1')]);
+    await settle();
+    shut(b, storageB);
+
+    await a.update('door_taps', { delta: -1 }, { id: 't1' });
+    await a.insert('door_taps', [tap('t2')]);
+    b = open(storageB);
+    expect((await b.select('door_taps', { filter: { id: 't1' } })).data?.[0].delta).toBe(1);
+    await settle();
+
+    const { data } = await b.select('door_taps', { order: [{ column: 'id' }] });
+    expect(data?.map(row => [row.id, row.delta])).toEqual([['t1', -1], ['t2', 1]]);
+  });
+});
+
+describe('local backend tombstones', () => {
+  it('keeps a deleted row from coming back with a replica that missed the delete', async () => {
+    const storageB = memoryStorage();
+    const a = open(memoryStorage());
+    let b = open(storageB);
+    await settle();
+
+    await a.insert('door_taps', [tap('t1'), tap('t2')]);
+    await settle();
+    shut(b, storageB);
+
+    await a.remove('door_taps', { id: 't1' });
+    b = open(storageB);
+    expect((await b.select('door_taps')).data).toHaveLength(2);
+    await settle();
+
+    expect((await a.select('door_taps')).data?.map(row => row.id)).toEqual(['t2']);
+    expect((await b.select('door_taps')).data?.map(row => row.id)).toEqual(['t2']);
+  });
+
+  it('lets a row be inserted again after it was deleted', async () => {
+    const a = open(memoryStorage());
+    const b = open(memoryStorage());
+    await settle();
+
+    await a.insert('door_taps', [tap('t1')]);
+    await a.remove('door_taps', { id: 't1' });
+    await a.insert('door_taps', [tap('t1')]);
+    await settle();
+
+    expect((await b.select('door_taps')).data?.map(row => row.id)).toEqual(['t1']);
+  });
+
+  it('settles the same cue posted on two replicas at once on one message', async () => {
+    const a = open(memoryStorage());
+    const b = open(memoryStorage());
+    await settle();
+
+    const removed: unknown[] = [];
+    b.joinRoom('bout', {
+      presenceKey: 'b',
+      subscriptions: [{ table: 'messages', event: 'DELETE', onChange: row => removed.push(row) }],
+      onPresence: () => {},
+      onStatus: () => {}
+    });
+
+    const [, posted] = await Promise.all([a.insert('messages', [cue('doors')]), b.insert('messages', [cue('doors')])]);
+    await settle();
+
+    const [fromA, fromB] = await Promise.all([a.select('messages'), b.select('messages')]);
+    expect(fromA.data).toHaveLength(1);
+    expect(fromB.data).toEqual(fromA.data);
+    // B drops its own copy only if it lost
+    expect(removed).toHaveLength(fromB.data?.[0].id === posted.data?.[0].id ? 0 : 1);
+
+    // A replica joining later gets the winner and not the tombstoned copy
+    const c = open(memoryStorage());
+    await settle();
+    expect((await c.select('messages')).data).toEqual(fromA.data);
+  });
+});
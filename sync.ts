@@ -0,0 +1,711 @@
+import { createClient } from '@supabase/supabase-js';
+
+// The app only talks to a SyncBackend: table reads and writes, change
+// subscriptions and presence. Supabase is the hosted option; the local backend
+// keeps a replica on every device and syncs it over BroadcastChannel or a
+// WebSocket relay on the venue network, so nights without internet still work.
+export type BackendKind = 'supabase' | 'local';
+
+// The event every install starts with, seeded by the README setup SQL
+export const DEFAULT_EVENT_ID = 'global_event';
+
+export type BackendConfig =
+  | { kind: 'supabase'; url: string; key: string }
+  | { kind: 'local'; relayUrl: string };
+
+// A bare value means equality; an object applies each operator it lists
+type FilterValue = string | number | boolean | {
+  neq?: string | number | boolean;
+  lt?: string | number;
+  gt?: string | number;
+  in?: (string | number)[];
+  ilike?: string;
+  contains?: (string | number)[];
+};
+export type RowFilter = Record<string, FilterValue>;
+type FilterOps = Exclude<FilterValue, string | number | boolean>;
+
+// A table row as the sync layer sees it; callers narrow it with select<T>
+export type Row = Record<string, unknown>;
+
+export interface SelectOptions {
+  filter?: RowFilter;
+  order?: { column: string; ascending?: boolean }[];
+  range?: [number, number];
+  limit?: number;
+  // Defaults to every column
+  columns?: string[];
+}
+
+interface SyncError {
+  message: string;
+  code?: string;
+}
+
+// status follows HTTP; 0 means the request never reached the server
+export interface SyncResult<T = unknown> {
+  data: T | null;
+  error: SyncError | null;
+  status: number;
+}
+
+export type ChannelStatus = 'SUBSCRIBED' | 'CHANNEL_ERROR' | 'TIMED_OUT' | 'CLOSED';
+
+// Realtime filters are equality only, and Supabase honours just the first one
+interface ChangeSubscription<T> {
+  table: string;
+  event: 'INSERT' | 'UPDATE' | 'DELETE' | '*';
+  filter?: Record<string, string | number>;
+  onChange: (row: T) => void;
+}
+
+interface RoomOptions {
+  presenceKey: string;
+  // Each handler takes its own table's row type, which any of them can be
+  // widened to here; the backend hands over rows unchecked
+  subscriptions: ChangeSubscription<never>[];
+  onPresence: (peers: unknown[]) => void;
+  onStatus: (status: ChannelStatus, detail?: string) => void;
+}
+
+export interface SyncRoom {
+  track: (payload: object) => Promise<void>;
+}
+
+export interface SyncBackend {
+  kind: BackendKind;
+  select: <T = Row>(table: string, options?: SelectOptions) => Promise<SyncResult<T[]>>;
+  // ignoreDuplicates skips rows whose key already exists and returns only the new ones
+  insert: <T = Row>(table: string, rows: object[], options?: { ignoreDuplicates?: boolean }) => Promise<SyncResult<T[]>>;
+  update: (table: string, patch: object, filter: RowFilter) => Promise<SyncResult<Row[]>>;
+  remove: (table: string, filter: RowFilter) => Promise<SyncResult<Row[]>>;
+  joinRoom: (room: string, options: RoomOptions) => SyncRoom;
+  // The backend's clock in ms, or null when it can't tell
+  serverTime: () => Promise<number | null>;
+  close: () => void;
+}
+
+// crypto.randomUUID only exists in secure contexts, and LAN installs are plain http
+export const makeId = () => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = Math.floor(Math.random() * 16);
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+// The PostgREST builder methods a RowFilter maps onto
+interface FilterBuilder {
+  eq(column: string, value: unknown): this;
+  neq(column: string, value: unknown): this;
+  lt(column: string, value: unknown): this;
+  gt(column: string, value: unknown): this;
+  in(column: string, values: readonly unknown[]): this;
+  ilike(column: string, pattern: string): this;
+  contains(column: string, value: readonly unknown[]): this;
+}
+
+const applySupabaseFilter = <Q extends FilterBuilder>(query: Q, filter: RowFilter = {}): Q => {
+  Object.entries(filter).forEach(([column, value]) => {
+    if (typeof value !== 'object') {
+      query = query.eq(column, value);
+      return;
+    }
+    (Object.entries(value) as [keyof FilterOps, never][]).forEach(([op, operand]) => {
+      query = query[op](column, operand);
+    });
+  });
+  return query;
+};
+
+const createSupabaseBackend = (url: string, key: string): SyncBackend => {
+  const client = createClient(url, key);
+
+  return {
+    kind: 'supabase',
+    select: async <T,>(table: string, { filter, order = [], range, limit, columns }: SelectOptions = {}) => {
+      // Naming the row type keeps supabase-js from parsing the column list as one
+      let query = applySupabaseFilter(client.from(table).select<string, T>(columns ? columns.join(',') : '*'), filter);
+      order.forEach(({ column, ascending = true }) => {
+        query = query.order(column, { ascending });
+      });
+      if (range) query = query.range(range[0], range[1]);
+      if (limit) query = query.limit(limit);
+      const { data, error, status } = await query;
+      return { data, error, status };
+    },
+    insert: async <T,>(table: string, rows: object[], { ignoreDuplicates = false } = {}) => {
+      const query = ignoreDuplicates ? client.from(table).upsert(rows, { ignoreDuplicates: true }) : client.from(table).insert(rows);
+      const { data, error, status } = await query.select();
+      return { data: data as T[] | null, error, status };
+    },
+    // Updates and deletes return the rows they touched: RLS filters rows out
+    // silently, so an empty result is how a blocked write shows up
+    update: async (table, patch, filter) => {
+      const { data, error, status } = await applySupabaseFilter(client.from(table).update(patch), filter).select();
+      return { data, error, status };
+    },
+    remove: async (table, filter) => {
+      const { data, error, status } = await applySupabaseFilter(client.from(table).delete(), filter).select();
+      return { data, error, status };
+    },
+    joinRoom: (room, { presenceKey, subscriptions, onPresence, onStatus }) => {
+      const channel = client.channel(room, { config: { presence: { key: presenceKey } } });
+
+      subscriptions.forEach(({ table, event, filter, onChange }) => {
+        const [column, value] = Object.entries(filter || {})[0] || [];
+        // supabase-js has an overload per event; the '*' one accepts them all
+        channel.on(
+          'postgres_changes',
+          { event: event as '*', schema: 'public', table, ...(column ? { filter: `${column}=eq.${value}` } : {}) },
+          (payload) => onChange((payload.eventType === 'DELETE' ? payload.old : payload.new) as never)
+        );
+      });
+
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          onPresence(Object.values(channel.presenceState()).flat());
+        })
+        .subscribe((status, err) => onStatus(status as ChannelStatus, err?.message));
+
+      return {
+        track: async (payload) => {
+          await channel.track(payload);
+        }
+      };
+    },
+    // Needs the server_time() function from the README schema
+    serverTime: async () => {
+      const { data, error } = await client.rpc('server_time');
+      return error || !data ? null : new Date(data).getTime();
+    },
+    close: () => {
+      client.removeAllChannels();
+    }
+  };
+};
+
+// Primary keys and the column defaults Postgres would otherwise fill in.
+// Tables missing here are keyed by id.
+interface LocalTableSpec {
+  key: string[];
+  // Unique indexes besides the key
+  unique?: string[][];
+  serial?: boolean;
+  defaults?: () => Row;
+}
+
+const LOCAL_TABLES: Record<string, LocalTableSpec> = {
+  event_state: {
+    key: ['id'],
+    defaults: () => ({ capacity: 300, archived: false, milestones: {}, alert_levels: [80, 95, 100] })
+  },
+  messages: { key: ['id'], unique: [['event_id', 'cue_id']], serial: true, defaults: () => ({ kind: 'chat', needs_ack: false, urgent: false }) },
+  message_acks: { key: ['message_id', 'station'] },
+  door_taps: { key: ['id'], defaults: () => ({ door: 'MAIN' }) },
+  event_archives: { key: ['id'], defaults: () => ({ messages: [], door_taps: [], message_acks: [], ticket_checkins: [], inventory_moves: [], sales: [], station_closeouts: [], incidents: [], milestones: {} }) },
+  state_changes: { key: ['id'] },
+  tickets: { key: ['event_id', 'code'], defaults: () => ({ name: '', tier: '', comp: false }) },
+  ticket_checkins: { key: ['id'], defaults: () => ({ door: 'MAIN', tap_id: null, voided_at: null }) },
+  inventory_items: { key: ['id'], defaults: () => ({ variant: '', start_stock: 0, low_stock_at: 0, archived: false }) },
+  inventory_moves: { key: ['id'], defaults: () => ({ corrects: null }) },
+  sales: { key: ['id'], defaults: () => ({ voided_at: null }) },
+  station_closeouts: { key: ['id'], defaults: () => ({ opening_float: 0, counted_cash: 0, counted_card: 0, note: '' }) },
+  incidents: {
+    key: ['id'],
+    defaults: () => ({ location: '', description: '', assignee: null, status: 'OPEN', responding_at: null, resolved_at: null, resolution: '' })
+  }
+};
+
+// Every replica row carries _rev, the hybrid logical clock reading of its
+// last write, so replicas that missed each other's changes converge on the
+// newest version
+type LocalRow = Row & { _rev: number };
+
+interface LocalDb {
+  tables: Record<string, LocalRow[]>;
+  // Deleted row keys with the time they were deleted
+  tombstones: Record<string, Record<string, number>>;
+}
+
+type LocalOp =
+  | { table: string; action: 'insert'; rows: LocalRow[] }
+  | { table: string; action: 'update'; patch: object; filter: RowFilter; rev: number }
+  | { table: string; action: 'delete'; filter: RowFilter; rev: number };
+
+// Newest write per row key, deletes included, so a peer can send only what
+// the other side hasn't seen
+type LocalRevs = Record<string, Record<string, number>>;
+
+// A hello carries the sender's revs; each reply holds just the newer rows,
+// plus the replier's own revs when the sender has newer rows to send back
+type LocalPacket =
+  | { type: 'op'; from: string; op: LocalOp }
+  | { type: 'hello'; from: string; revs: LocalRevs }
+  | { type: 'snapshot'; from: string; to: string; db: LocalDb; revs?: LocalRevs }
+  | { type: 'presence'; from: string; room: string; payload: object | null };
+
+interface LocalTransport {
+  send: (packet: LocalPacket) => void;
+  close: () => void;
+}
+
+const LOCAL_DB_KEY = 'bcs_local_db';
+const LOCAL_CHANNEL = 'bcs-local-sync';
+// Writes come in bursts, so the replica is saved once things settle
+const LOCAL_SAVE_MS = 500;
+const RELAY_RETRY_MS = 3000;
+const PRESENCE_HEARTBEAT_MS = 10000;
+const PRESENCE_TIMEOUT_MS = 30000;
+
+const likePattern = (pattern: string) =>
+  new RegExp('^' + pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.') + '$', 'i');
+
+type Comparable = string | number;
+
+export const matchesFilter = (row: object, filter: RowFilter = {}) =>
+  Object.entries(filter).every(([column, condition]) => {
+    const value = (row as Row)[column];
+    if (typeof condition !== 'object') return value === condition;
+    return (Object.entries(condition) as [keyof FilterOps, FilterOps[keyof FilterOps]][]).every(([op, operand]) => {
+      switch (op) {
+        case 'neq': return value !== operand;
+        case 'lt': return value != null && (value as Comparable) < (operand as Comparable);
+        case 'gt': return value != null && (value as Comparable) > (operand as Comparable);
+        case 'in': return (operand as Comparable[]).includes(value as Comparable);
+        case 'ilike': return value != null && likePattern(operand as string).test(String(value));
+        case 'contains': return Array.isArray(value) && (operand as Comparable[]).every(item => value.includes(item));
+        default: return false;
+      }
+    });
+  });
+
+// Postgres order: nulls sort last ascending and first descending
+const compareRows = (order: { column: string; ascending?: boolean }[]) => (a: object, b: object) => {
+  for (const { column, ascending = true } of order) {
+    const x = (a as Row)[column] as Comparable | null | undefined;
+    const y = (b as Row)[column] as Comparable | null | undefined;
+    if (x === y) continue;
+    const result = x == null ? 1 : y == null ? -1 : x < y ? -1 : 1;
+    return ascending ? result : -result;
+  }
+  return 0;
+};
+
+const openBroadcastTransport = (onPacket: (packet: LocalPacket) => void, onStatus: (status: ChannelStatus) => void): LocalTransport => {
+  const bc = new BroadcastChannel(LOCAL_CHANNEL);
+  bc.onmessage = (e) => onPacket(e.data);
+  setTimeout(() => onStatus('SUBSCRIBED'), 0);
+  return {
+    send: (packet) => bc.postMessage(packet),
+    close: () => bc.close()
+  };
+};
+
+// Packets sent while the relay is down are dropped; the snapshot exchange
+// after reconnecting carries anything written in the meantime
+const openRelayTransport = (url: string, onPacket: (packet: LocalPacket) => void, onStatus: (status: ChannelStatus) => void): LocalTransport => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+
+  const connect = () => {
+    if (closed) return;
+    try {
+      socket = new WebSocket(url);
+    } catch (err) {
+      console.error('Relay connect error', err);
+      onStatus('CHANNEL_ERROR');
+      return;
+    }
+    socket.onopen = () => onStatus('SUBSCRIBED');
+    socket.onmessage = (e) => {
+      try {
+        onPacket(JSON.parse(e.data));
+      } catch (err) {
+        console.warn('Ignoring bad relay packet', err);
+      }
+    };
+    socket.onclose = () => {
+      if (closed) return;
+      onStatus('CLOSED');
+      setTimeout(connect, RELAY_RETRY_MS);
+    };
+  };
+  connect();
+
+  return {
+    send: (packet) => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(packet));
+    },
+    close: () => {
+      closed = true;
+      socket?.close();
+    }
+  };
+};
+
+// With no relay URL, replicas sync between tabs on this device. persist: false
+// and no BroadcastChannel leaves a plain in-memory database.
+export const createLocalBackend = ({ relayUrl = '', persist = true }: { relayUrl?: string; persist?: boolean } = {}): SyncBackend => {
+  const peerId = makeId();
+  const db: LocalDb = { tables: {}, tombstones: {} };
+  if (persist) {
+    try {
+      Object.assign(db, JSON.parse(localStorage.getItem(LOCAL_DB_KEY) || '{}'));
+    } catch (err) {
+      console.error('Local database is unreadable, starting empty', err);
+    }
+  }
+  // Same seed row as the Supabase setup; _rev 0 yields to any real copy
+  if (!db.tables.event_state?.length) {
+    db.tables.event_state = [{
+      ...LOCAL_TABLES.event_state.defaults!(),
+      id: DEFAULT_EVENT_ID,
+      name: 'Bout Night',
+      created_at: new Date().toISOString(),
+      _rev: 0
+    }];
+  }
+
+  interface LocalRoom {
+    name: string;
+    options: RoomOptions;
+    self: object | null;
+    peers: Map<string, { payload: object; seen: number }>;
+  }
+  const rooms: LocalRoom[] = [];
+  let status: ChannelStatus | null = null;
+  let transport: LocalTransport | null = null;
+
+  const spec = (table: string): LocalTableSpec => LOCAL_TABLES[table] || { key: ['id'] };
+  const keyOf = (table: string, row: Row) => spec(table).key.map(column => String(row[column])).join('|');
+  const rowsOf = (table: string) => db.tables[table] || (db.tables[table] = []);
+  // Unique index entries; as in Postgres, nulls never clash
+  const uniqueKeysOf = (table: string, row: Row) => (spec(table).unique || [])
+    .filter(columns => columns.every(column => row[column] != null))
+    .map(columns => columns.map(column => `${column}:${String(row[column])}`).join('|'));
+  const indexKeysOf = (table: string, row: Row) => [`key:${keyOf(table, row)}`, ...uniqueKeysOf(table, row)];
+  const strip = ({ _rev, ...row }: LocalRow): Row => JSON.parse(JSON.stringify(row));
+
+  // Hybrid logical clock: wall-clock milliseconds, but always past any rev
+  // this replica has seen, so a phone whose clock runs slow still overwrites
+  // what it has already read. The last three digits are this replica's own
+  // number and break ties between simultaneous writes.
+  const node = Math.floor(Math.random() * 1000);
+  let clock = 0;
+  const observe = (rev: number) => {
+    if (rev > clock) clock = rev;
+  };
+  const nextRev = () => {
+    clock = Math.max(Date.now(), Math.floor(clock / 1000) + 1) * 1000 + node;
+    return clock;
+  };
+
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  const flush = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = null;
+    try {
+      localStorage.setItem(LOCAL_DB_KEY, JSON.stringify(db));
+    } catch (err) {
+      console.error('Local database save error', err);
+    }
+  };
+  const save = () => {
+    if (persist && !saveTimer) saveTimer = setTimeout(flush, LOCAL_SAVE_MS);
+  };
+
+  const revsOf = (): LocalRevs => {
+    const revs: LocalRevs = {};
+    Object.entries(db.tombstones).forEach(([table, keys]) => {
+      revs[table] = { ...keys };
+    });
+    Object.entries(db.tables).forEach(([table, rows]) => {
+      const known = revs[table] || (revs[table] = {});
+      rows.forEach(row => {
+        const key = keyOf(table, row);
+        known[key] = Math.max(known[key] ?? -1, row._rev);
+      });
+    });
+    return revs;
+  };
+
+  const newerThan = (revs: LocalRevs): LocalDb => {
+    const diff: LocalDb = { tables: {}, tombstones: {} };
+    Object.entries(db.tables).forEach(([table, rows]) => {
+      const newer = rows.filter(row => (revs[table]?.[keyOf(table, row)] ?? -1) < row._rev);
+      if (newer.length > 0) diff.tables[table] = newer;
+    });
+    Object.entries(db.tombstones).forEach(([table, keys]) => {
+      const newer = Object.entries(keys).filter(([key, rev]) => (revs[table]?.[key] ?? -1) < rev);
+      if (newer.length > 0) diff.tombstones[table] = Object.fromEntries(newer);
+    });
+    return diff;
+  };
+
+  Object.values(revsOf()).forEach(keys => Object.values(keys).forEach(observe));
+
+  const hasNewer = (revs: LocalRevs) => {
+    const mine = revsOf();
+    return Object.entries(revs).some(([table, keys]) =>
+      Object.entries(keys).some(([key, rev]) => (mine[table]?.[key] ?? -1) < rev));
+  };
+
+  const emit = (table: string, event: 'INSERT' | 'UPDATE' | 'DELETE', row: LocalRow) => {
+    rooms.forEach(room => room.options.subscriptions.forEach(sub => {
+      if (sub.table === table && (sub.event === '*' || sub.event === event) && matchesFilter(row, sub.filter)) {
+        sub.onChange(strip(row) as never);
+      }
+    }));
+  };
+
+  const send = (packet: LocalPacket) => transport?.send(packet);
+
+  // Replicas can each accept a row that the other's unique index would have
+  // refused, such as two devices posting the same cue. Every replica keeps
+  // the earlier write and tombstones the later one, so they all agree.
+  // Returns whether the incoming row stays.
+  const settleClash = (table: string, row: LocalRow) => {
+    const keys = uniqueKeysOf(table, row);
+    if (keys.length === 0) return true;
+    const rows = rowsOf(table);
+    const rival = rows.find(r => keyOf(table, r) !== keyOf(table, row) && uniqueKeysOf(table, r).some(key => keys.includes(key)));
+    if (!rival) return true;
+    const tombstones = db.tombstones[table] || (db.tombstones[table] = {});
+    if (rival._rev < row._rev || (rival._rev === row._rev && keyOf(table, rival) < keyOf(table, row))) {
+      tombstones[keyOf(table, row)] = row._rev;
+      return false;
+    }
+    tombstones[keyOf(table, rival)] = rival._rev;
+    rows.splice(rows.indexOf(rival), 1);
+    emit(table, 'DELETE', rival);
+    return true;
+  };
+
+  // Returns the rows the op touched, like Supabase's update().select()
+  const applyOp = (op: LocalOp) => {
+    const rows = rowsOf(op.table);
+    const touched: LocalRow[] = [];
+    if (op.action === 'insert') {
+      op.rows.forEach(row => {
+        observe(row._rev);
+        const key = keyOf(op.table, row);
+        if (rows.some(r => keyOf(op.table, r) === key) || !settleClash(op.table, row)) return;
+        rows.push(row);
+        delete db.tombstones[op.table]?.[key];
+        touched.push(row);
+        emit(op.table, 'INSERT', row);
+      });
+    } else if (op.action === 'update') {
+      observe(op.rev);
+      // A replica that already holds a later write keeps it
+      rows.filter(r => matchesFilter(r, op.filter) && r._rev <= op.rev).forEach(row => {
+        Object.assign(row, op.patch, { _rev: op.rev });
+        touched.push(row);
+        emit(op.table, 'UPDATE', row);
+      });
+    } else {
+      observe(op.rev);
+      const tombstones = db.tombstones[op.table] || (db.tombstones[op.table] = {});
+      db.tables[op.table] = rows.filter(row => {
+        if (!matchesFilter(row, op.filter)) return true;
+        tombstones[keyOf(op.table, row)] = op.rev;
+        touched.push(row);
+        emit(op.table, 'DELETE', row);
+        return false;
+      });
+    }
+    save();
+    return touched;
+  };
+
+  // Newest write wins per row; deletes win over anything older than them
+  const mergeSnapshot = (snapshot: LocalDb) => {
+    Object.entries(snapshot.tombstones || {}).forEach(([table, keys]) => {
+      const tombstones = db.tombstones[table] || (db.tombstones[table] = {});
+      Object.entries(keys).forEach(([key, rev]) => {
+        observe(rev);
+        if ((tombstones[key] || 0) < rev) tombstones[key] = rev;
+      });
+      db.tables[table] = rowsOf(table).filter(row => {
+        const deletedAt = tombstones[keyOf(table, row)];
+        if (deletedAt === undefined || deletedAt < row._rev) return true;
+        emit(table, 'DELETE', row);
+        return false;
+      });
+    });
+    Object.entries(snapshot.tables || {}).forEach(([table, incoming]) => {
+      const rows = rowsOf(table);
+      incoming.forEach(row => {
+        observe(row._rev);
+        const key = keyOf(table, row);
+        if ((db.tombstones[table]?.[key] || 0) >= row._rev) return;
+        const existing = rows.find(r => keyOf(table, r) === key);
+        if (!existing) {
+          if (!settleClash(table, row)) return;
+          rows.push(row);
+          emit(table, 'INSERT', row);
+        } else if (existing._rev < row._rev) {
+          Object.assign(existing, row);
+          emit(table, 'UPDATE', existing);
+        }
+      });
+    });
+    save();
+  };
+
+  const notifyPresence = (room: LocalRoom) => {
+    const peers = [...room.peers.values()].map(p => p.payload);
+    room.options.onPresence(room.self ? [room.self, ...peers] : peers);
+  };
+
+  const announce = (room: LocalRoom) => {
+    if (room.self) send({ type: 'presence', from: peerId, room: room.name, payload: room.self });
+  };
+
+  const handlePacket = (packet: LocalPacket) => {
+    if (packet.from === peerId) return;
+    if (packet.type === 'op') {
+      applyOp(packet.op);
+    } else if (packet.type === 'hello') {
+      send({
+        type: 'snapshot',
+        from: peerId,
+        to: packet.from,
+        db: newerThan(packet.revs),
+        ...(hasNewer(packet.revs) ? { revs: revsOf() } : {})
+      });
+      rooms.forEach(announce);
+    } else if (packet.type === 'snapshot') {
+      if (packet.to !== peerId) return;
+      mergeSnapshot(packet.db);
+      if (packet.revs) send({ type: 'snapshot', from: peerId, to: packet.from, db: newerThan(packet.revs) });
+    } else {
+      const room = rooms.find(r => r.name === packet.room);
+      if (!room) return;
+      if (packet.payload) room.peers.set(packet.from, { payload: packet.payload, seen: Date.now() });
+      else room.peers.delete(packet.from);
+      notifyPresence(room);
+    }
+  };
+
+  const handleStatus = (next: ChannelStatus) => {
+    status = next;
+    if (next === 'SUBSCRIBED') {
+      // Peers answer with what we're missing and ask for what they are
+      send({ type: 'hello', from: peerId, revs: revsOf() });
+      rooms.forEach(announce);
+    }
+    rooms.forEach(room => room.options.onStatus(next));
+  };
+
+  if (relayUrl) {
+    transport = openRelayTransport(relayUrl, handlePacket, handleStatus);
+  } else if (persist && typeof BroadcastChannel !== 'undefined') {
+    transport = openBroadcastTransport(handlePacket, handleStatus);
+  } else {
+    setTimeout(() => handleStatus('SUBSCRIBED'), 0);
+  }
+
+  const heartbeat = setInterval(() => {
+    const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+    rooms.forEach(room => {
+      announce(room);
+      const stale = [...room.peers.entries()].filter(([, p]) => p.seen < cutoff);
+      stale.forEach(([id]) => room.peers.delete(id));
+      if (stale.length > 0) notifyPresence(room);
+    });
+  }, PRESENCE_HEARTBEAT_MS);
+
+  const leave = () => {
+    rooms.forEach(room => {
+      if (room.self) send({ type: 'presence', from: peerId, room: room.name, payload: null });
+    });
+    if (saveTimer) flush();
+  };
+  window.addEventListener('pagehide', leave);
+
+  const write = (op: LocalOp) => {
+    const touched = applyOp(op);
+    send({ type: 'op', from: peerId, op });
+    return touched;
+  };
+
+  return {
+    kind: 'local',
+    select: async <T,>(table: string, { filter, order = [], range, limit }: SelectOptions = {}) => {
+      let rows = rowsOf(table).filter(row => matchesFilter(row, filter)).sort(compareRows(order));
+      if (range) rows = rows.slice(range[0], range[1] + 1);
+      if (limit) rows = rows.slice(0, limit);
+      return { data: rows.map(strip) as T[], error: null, status: 200 };
+    },
+    insert: async <T,>(table: string, rows: object[], { ignoreDuplicates = false } = {}) => {
+      const { serial, defaults } = spec(table);
+      const now = Date.now();
+      const rev = nextRev();
+      const complete: LocalRow[] = rows.map((row, i) => ({
+        ...(defaults ? defaults() : {}),
+        ...(serial ? { id: now * 1000 + Math.floor(Math.random() * 1000) + i } : {}),
+        created_at: new Date(now).toISOString(),
+        ...row,
+        _rev: rev
+      }));
+      const taken = new Set(rowsOf(table).flatMap(r => indexKeysOf(table, r)));
+      const fresh: LocalRow[] = [];
+      for (const row of complete) {
+        const keys = indexKeysOf(table, row);
+        if (keys.some(key => taken.has(key))) {
+          if (ignoreDuplicates) continue;
+          return { data: null, error: { message: `duplicate key value violates unique constraint on "${table}"`, code: '23505' }, status: 409 };
+        }
+        keys.forEach(key => taken.add(key));
+        fresh.push(row);
+      }
+      if (fresh.length > 0) write({ table, action: 'insert', rows: fresh });
+      return { data: fresh.map(strip) as T[], error: null, status: 201 };
+    },
+    update: async (table, patch, filter) => {
+      const touched = write({ table, action: 'update', patch, filter, rev: nextRev() });
+      return { data: touched.map(strip), error: null, status: 200 };
+    },
+    remove: async (table, filter) => {
+      const touched = write({ table, action: 'delete', filter, rev: nextRev() });
+      return { data: touched.map(strip), error: null, status: 200 };
+    },
+    joinRoom: (name, options) => {
+      const room: LocalRoom = { name, options, self: null, peers: new Map() };
+      rooms.push(room);
+      if (status) setTimeout(() => options.onStatus(status!), 0);
+      return {
+        track: async (payload) => {
+          room.self = payload;
+          announce(room);
+          notifyPresence(room);
+        }
+      };
+    },
+    // The relay keeps the venue's clock; tabs on one device already share one
+    serverTime: async () => {
+      if (!relayUrl) return null;
+      try {
+        const response = await fetch(`${relayUrl.replace(/^ws/, 'http').replace(/\/$/, '')}/time`, { cache: 'no-store' });
+        const { now } = await response.json();
+        return typeof now === 'number' ? now : null;
+      } catch {
+        return null;
+      }
+    },
+    close: () => {
+      leave();
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', leave);
+      rooms.length = 0;
+      transport?.close();
+    }
+  };
+};
+
+export const createBackend = (config: BackendConfig): SyncBackend =>
+  config.kind === 'local'
+    ? createLocalBackend({ relayUrl: config.relayUrl })
+    : createSupabaseBackend(config.url, config.key);